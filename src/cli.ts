@@ -10,10 +10,24 @@ import { groupRemoveCommand } from './commands/group/remove.js';
 import { projectAddCommand } from './commands/project/add.js';
 import { projectRemoveCommand } from './commands/project/remove.js';
 import { projectListCommand } from './commands/project/list.js';
+import { projectEnsureBranchesCommand } from './commands/project/ensureBranches.js';
 import { releaseCommand } from './commands/release.js';
 import { backportCommand } from './commands/backport.js';
+import { mergeCommand } from './commands/merge.js';
+import { diffCommand } from './commands/diff.js';
+import { tagCommand } from './commands/tag.js';
 import { statusCommand } from './commands/status.js';
+import { historyCommand } from './commands/history.js';
+import { doctorCommand } from './commands/doctor.js';
 import { configCommand } from './commands/config/index.js';
+import { profileCommand } from './commands/profile/index.js';
+import { authCommand } from './commands/auth/index.js';
+import { profileExists, setProfileOverride } from './config/manager.js';
+import {
+  OUTPUT_FORMATS,
+  parseOutputFormat,
+  setOutputFormat,
+} from './ui/output.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const packageJson = JSON.parse(
@@ -26,7 +40,26 @@ export function createProgram(): Command {
   program
     .name('husgit')
     .description('CLI tool for orchestrating GitLab merge request workflows')
-    .version(packageJson.version);
+    .version(packageJson.version)
+    .option(
+      '--output <format>',
+      `Output format: ${OUTPUT_FORMATS.join(', ')}`,
+      parseOutputFormat,
+      'table',
+    )
+    .option('--profile <name>', 'Use this profile instead of the active one')
+    .hook('preAction', (thisCommand) => {
+      const { output, profile } = thisCommand.opts();
+      setOutputFormat(output);
+      if (profile) {
+        if (!profileExists(profile)) {
+          thisCommand.error(
+            `Profile "${profile}" not found. Create it with "husgit profile create ${profile}".`,
+          );
+        }
+        setProfileOverride(profile);
+      }
+    });
 
   // Setup
   const setup = program.command('setup').description('Configure environments');
@@ -44,16 +77,28 @@ export function createProgram(): Command {
   project.addCommand(projectAddCommand());
   project.addCommand(projectRemoveCommand());
   project.addCommand(projectListCommand());
+  project.addCommand(projectEnsureBranchesCommand());
 
   // Release & Backport
   program.addCommand(releaseCommand());
   program.addCommand(backportCommand());
+  program.addCommand(mergeCommand());
+  program.addCommand(tagCommand());
 
   // Status
   program.addCommand(statusCommand());
+  program.addCommand(diffCommand());
+
+  // History
+  program.addCommand(historyCommand());
+
+  // Doctor
+  program.addCommand(doctorCommand());
 
   // Config
   program.addCommand(configCommand());
+  program.addCommand(profileCommand());
+  program.addCommand(authCommand());
 
   return program;
 }
@@ -0,0 +1,14 @@
+import { Command } from 'commander';
+import { authLoginCommand } from './login.js';
+import { authLogoutCommand } from './logout.js';
+import { authStatusCommand } from './status.js';
+
+export function authCommand(): Command {
+  const cmd = new Command('auth').description(
+    'Manage the GitLab token stored for the active profile',
+  );
+  cmd.addCommand(authLoginCommand());
+  cmd.addCommand(authLogoutCommand());
+  cmd.addCommand(authStatusCommand());
+  return cmd;
+}
@@ -0,0 +1,83 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { loadConfig, getGitlabUrl } from '../../config/manager.js';
+import {
+  getCredentialsPath,
+  getHost,
+  saveCredential,
+  PASSPHRASE_ENV,
+} from '../../config/credentials.js';
+import { GitlabClient } from '../../gitlab/client.js';
+import { log, startSpinner } from '../../ui/output.js';
+import { promptPassword, readStdin } from '../../ui/prompts.js';
+
+interface AuthLoginOptions {
+  stdin?: boolean;
+  encrypt?: boolean;
+}
+
+export function authLoginCommand(): Command {
+  return new Command('login')
+    .description('Validate a GitLab token and store it for this host')
+    .option('--stdin', 'Read the token from stdin instead of prompting')
+    .option(
+      '--encrypt',
+      `Encrypt the token with a passphrase (read from ${PASSPHRASE_ENV} when set)`,
+    )
+    .action(runAuthLogin);
+}
+
+async function runAuthLogin(options: AuthLoginOptions): Promise<void> {
+  const gitlabUrl = getGitlabUrl(loadConfig());
+  const host = getHost(gitlabUrl);
+
+  const token = (
+    options.stdin
+      ? await readStdin()
+      : await promptPassword(`GitLab token for ${host}:`)
+  ).trim();
+  if (!token) {
+    log(chalk.red('No token given.'));
+    return;
+  }
+
+  let passphrase: string | undefined;
+  if (options.encrypt) {
+    passphrase = process.env[PASSPHRASE_ENV];
+    if (!passphrase) {
+      passphrase = await promptPassword('Passphrase:');
+      const again = await promptPassword('Repeat passphrase:');
+      if (passphrase !== again) {
+        log(chalk.red('Passphrases do not match.'));
+        return;
+      }
+    }
+    if (!passphrase) {
+      log(chalk.red('Passphrase must not be empty.'));
+      return;
+    }
+  }
+
+  const spinner = startSpinner(`Checking token against ${gitlabUrl}...`);
+  let user: string;
+  try {
+    user = await new GitlabClient(token, gitlabUrl).checkCurrentUser();
+  } catch (error: unknown) {
+    spinner.fail(error instanceof Error ? error.message : String(error));
+    return;
+  }
+  if (!user) {
+    spinner.fail(`${host} did not accept the token.`);
+    return;
+  }
+  spinner.stop();
+
+  saveCredential(gitlabUrl, token, { user, passphrase });
+  log(chalk.green(`Logged in to ${host} as ${user}.`));
+  log(chalk.dim(`Token stored in ${getCredentialsPath()}`));
+  if (passphrase) {
+    log(
+      chalk.dim(`Set ${PASSPHRASE_ENV} so husgit can decrypt it when needed.`),
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { loadConfig, getGitlabUrl } from '../../config/manager.js';
+import { getHost, removeCredential } from '../../config/credentials.js';
+import { log } from '../../ui/output.js';
+
+export function authLogoutCommand(): Command {
+  return new Command('logout')
+    .description('Remove the stored token for this host')
+    .action(runAuthLogout);
+}
+
+async function runAuthLogout(): Promise<void> {
+  const gitlabUrl = getGitlabUrl(loadConfig());
+  const host = getHost(gitlabUrl);
+
+  if (!removeCredential(gitlabUrl)) {
+    log(chalk.yellow(`No token stored for ${host}.`));
+    return;
+  }
+  log(chalk.green(`Logged out of ${host}.`));
+}
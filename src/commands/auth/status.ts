@@ -0,0 +1,72 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  loadConfig,
+  getActiveProfile,
+  getGitlabUrl,
+  getTokenEnv,
+} from '../../config/manager.js';
+import { getCredentialInfo, getHost } from '../../config/credentials.js';
+import { createGitlabClient, type GitlabClient } from '../../gitlab/client.js';
+import { log, startSpinner } from '../../ui/output.js';
+
+export function authStatusCommand(): Command {
+  return new Command('status')
+    .description('Show the GitLab user, host and token expiry')
+    .action(runAuthStatus);
+}
+
+async function runAuthStatus(): Promise<void> {
+  const config = loadConfig();
+  const gitlabUrl = getGitlabUrl(config);
+  const tokenEnv = getTokenEnv(config);
+  const stored = getCredentialInfo(gitlabUrl);
+
+  log(`Profile: ${getActiveProfile()}`);
+  log(`Host:    ${getHost(gitlabUrl)}`);
+  log(
+    `Token:   ${
+      process.env[tokenEnv]
+        ? `$${tokenEnv}`
+        : stored
+          ? `stored${stored.encrypted ? ' (encrypted)' : ''}, saved ${stored.savedAt.slice(0, 10)}`
+          : chalk.yellow('none')
+    }`,
+  );
+
+  let client: GitlabClient;
+  try {
+    client = createGitlabClient(config);
+  } catch (error: unknown) {
+    log(
+      chalk.red(`\n${error instanceof Error ? error.message : String(error)}`),
+    );
+    return;
+  }
+
+  const spinner = startSpinner('Checking token...');
+  let user: string;
+  try {
+    user = await client.checkCurrentUser();
+  } catch (error: unknown) {
+    spinner.fail(error instanceof Error ? error.message : String(error));
+    return;
+  }
+  if (!user) {
+    spinner.fail(
+      'The token was rejected. Log in again with "husgit auth login".',
+    );
+    return;
+  }
+
+  let expires: string;
+  try {
+    expires = (await client.getCurrentToken()).expiresAt ?? 'never';
+  } catch {
+    expires = chalk.dim('unknown');
+  }
+  spinner.stop();
+
+  log(`User:    ${user}`);
+  log(`Expires: ${expires}`);
+}
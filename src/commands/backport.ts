@@ -1,51 +1,94 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
-import Table from 'cli-table3';
 import {
   loadConfig,
-  getAllProjects,
+  getConcurrency,
   getPreviousEnvironment,
 } from '../config/manager.js';
-import { createGitlabClient } from '../gitlab/client.js';
+import { createGitlabClient, type GitlabClient } from '../gitlab/client.js';
+import { executeMergeRequests } from '../services/flowExecution.js';
 import {
-  resolveBranchPairs,
-  executeMergeRequests,
-} from '../services/flowExecution.js';
+  backportBranchName,
+  prepareCherryPickBranches,
+  resolveMergeRequestPicks,
+  type CherryPick,
+  type CherryPickPlan,
+} from '../services/cherryPick.js';
+import { recordRun, resolveRunUser } from '../services/runJournal.js';
+import { parseListOption } from '../ui/options.js';
+import { promptSelect, promptInput, promptCheckbox } from '../ui/prompts.js';
 import {
-  promptSelect,
-  promptInput,
-  promptProjectMultiSelect,
-} from '../ui/prompts.js';
-import type { MergeRequestResult, ProjectConfig } from '../types.js';
+  printCherryPickPreview,
+  printResults,
+  writeResultRecords,
+} from '../ui/results.js';
+import { log, startSpinner } from '../ui/output.js';
+import type {
+  Environment,
+  HusgitConfig,
+  MergeRequestResult,
+  ProjectConfig,
+} from '../types.js';
+import {
+  addPromotionOptions,
+  selectProjects,
+  resolveMetadata,
+  runPromotionStep,
+  retryFailedRun,
+  type PromotionOptions,
+} from './promote.js';
+import { undoCommand } from './undo.js';
+
+interface BackportOptions extends PromotionOptions {
+  cherryPick?: boolean;
+  mrs?: string[];
+  commits?: string[];
+}
 
 export function backportCommand(): Command {
-  return new Command('backport')
-    .description(
-      'Create merge requests to backport to the previous environment',
+  return addPromotionOptions(
+    new Command('backport')
+      .description(
+        'Create merge requests to backport to the previous environment',
+      )
+      .argument('[source-env]', 'Source environment name'),
+  )
+    .option(
+      '--cherry-pick',
+      'Backport selected merged MRs only, via a fresh branch off the target',
+    )
+    .option(
+      '--mrs <iids>',
+      'Merged MR iids to cherry-pick from a single project (implies --cherry-pick)',
+      parseListOption,
+    )
+    .option(
+      '--commits <shas>',
+      'Commit SHAs to cherry-pick into a single project (implies --cherry-pick)',
+      parseListOption,
     )
-    .argument('[source-env]', 'Source environment name')
-    .option('--group <name>', 'Target a specific group')
-    .option('--all', 'Target all projects')
-    .option('--projects <paths>', 'Comma-separated project fullPaths')
-    .option('--title <title>', 'MR title')
-    .option('--description <desc>', 'MR description')
-    .option('--dry-run', 'Show what would be created without creating MRs')
+    .addCommand(undoCommand('backport'))
     .action(runBackport);
 }
 
 async function runBackport(
   sourceEnvArg: string | undefined,
-  options: {
-    group?: string;
-    all?: boolean;
-    projects?: string;
-    title?: string;
-    description?: string;
-    dryRun?: boolean;
-  },
+  options: BackportOptions,
 ): Promise<void> {
   const config = loadConfig();
+  const concurrency = getConcurrency(config, options.concurrency);
+
+  if (options.retryFailed) {
+    const client = createGitlabClient();
+    const metadata = await resolveMetadata(client, options);
+    if (!metadata) return;
+    await retryFailedRun(
+      { config, client, options, concurrency, metadata },
+      'backport',
+      typeof options.retryFailed === 'string' ? options.retryFailed : undefined,
+    );
+    return;
+  }
 
   // Resolve source environment
   let sourceEnv: string;
@@ -54,7 +97,7 @@ async function runBackport(
   } else {
     const backportableEnvs = config.environments.filter((_e, i) => i > 0);
     if (backportableEnvs.length === 0) {
-      console.log(chalk.red('Not enough environments to backport.'));
+      log(chalk.red('Not enough environments to backport.'));
       return;
     }
     sourceEnv = await promptSelect<string>(
@@ -65,7 +108,7 @@ async function runBackport(
 
   const targetEnv = getPreviousEnvironment(config, sourceEnv);
   if (!targetEnv) {
-    console.log(
+    log(
       chalk.red(
         `No previous environment before "${sourceEnv}". Cannot backport.`,
       ),
@@ -73,31 +116,18 @@ async function runBackport(
     return;
   }
 
-  // Resolve projects
-  let selectedProjects: ProjectConfig[];
-
-  if (options.all) {
-    selectedProjects = getAllProjects(config);
-  } else if (options.projects) {
-    const paths = options.projects.split(',').map((p) => p.trim());
-    selectedProjects = paths
-      .map((fp) => config.projects[fp])
-      .filter((p): p is ProjectConfig => p !== undefined);
-  } else if (options.group) {
-    const group = config.groups[options.group];
-    if (!group) {
-      console.log(chalk.red(`Group "${options.group}" not found.`));
-      return;
-    }
-    selectedProjects = group.projectPaths
-      .map((fp) => config.projects[fp])
-      .filter((p): p is ProjectConfig => p !== undefined);
-  } else {
-    selectedProjects = await promptProjectMultiSelect(config, sourceEnv);
-    if (selectedProjects.length === 0) {
-      console.log(chalk.yellow('No projects selected.'));
-      return;
-    }
+  const selectedProjects = await selectProjects(config, options, sourceEnv);
+  if (!selectedProjects) return;
+
+  if (options.cherryPick || options.mrs || options.commits) {
+    await runCherryPickBackport(
+      config,
+      options,
+      sourceEnv,
+      targetEnv,
+      selectedProjects,
+    );
+    return;
   }
 
   let title = options.title;
@@ -108,80 +138,229 @@ async function runBackport(
     );
   }
 
-  const pairs = resolveBranchPairs(
-    config,
-    sourceEnv,
+  const client = createGitlabClient();
+  const metadata = await resolveMetadata(client, options);
+  if (!metadata) return;
+
+  const results = await runPromotionStep(
+    { config, client, options, concurrency, metadata },
     'backport',
+    sourceEnv,
+    targetEnv,
     selectedProjects,
+    title,
   );
+  if (results) writeResultRecords(results);
+}
 
-  if (pairs.length === 0) {
-    console.log(chalk.yellow('No projects to backport.'));
+async function runCherryPickBackport(
+  config: HusgitConfig,
+  options: BackportOptions,
+  sourceEnv: string,
+  targetEnv: Environment,
+  projects: ProjectConfig[],
+): Promise<void> {
+  // SHAs and MR iids only mean something inside one repository
+  const refsOption = options.commits
+    ? '--commits'
+    : options.mrs
+      ? '--mrs'
+      : undefined;
+  if (refsOption && projects.length !== 1) {
+    log(
+      chalk.red(
+        `${refsOption} needs exactly one project (got ${projects.length}). Pick it with --projects <path>.`,
+      ),
+    );
     return;
   }
 
-  console.log(
+  const concurrency = getConcurrency(config, options.concurrency);
+  const client = createGitlabClient();
+  const metadata = await resolveMetadata(client, options);
+  if (!metadata) return;
+
+  const plans: CherryPickPlan[] = [];
+  // Projects that never get a plan, reported alongside the MR results
+  const unplanned: MergeRequestResult[] = [];
+  for (const project of projects) {
+    const sourceBranch = project.branchMap[sourceEnv];
+    const targetBranch = project.branchMap[targetEnv.name];
+    if (!sourceBranch || !targetBranch) {
+      const reason = `no branch mapped for ${!sourceBranch ? sourceEnv : targetEnv.name}`;
+      log(chalk.yellow(`Skipping "${project.name}": ${reason}.`));
+      unplanned.push({
+        project,
+        sourceBranch: sourceBranch ?? '',
+        targetBranch: targetBranch ?? '',
+        status: 'skipped',
+        error: reason,
+      });
+      continue;
+    }
+
+    let picks: CherryPick[];
+    try {
+      picks = await selectCherryPicks(client, options, project, sourceBranch);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(chalk.red(`${project.name}: ${message}`));
+      unplanned.push({
+        project,
+        sourceBranch,
+        targetBranch,
+        status: 'failed',
+        error: message,
+      });
+      continue;
+    }
+
+    if (picks.length > 0) {
+      plans.push({ project, sourceBranch, targetBranch, picks });
+    }
+  }
+
+  const defaultTitle = `Backport to ${targetEnv.name} (cherry-pick from ${sourceEnv})`;
+
+  const finishRun = async (
+    results: MergeRequestResult[],
+    title: string,
+    startedAt: Date,
+  ): Promise<void> => {
+    printResults(results);
+    writeResultRecords(results);
+
+    const run = recordRun(
+      {
+        user: await resolveRunUser(client),
+        direction: 'backport',
+        mode: 'cherry-pick',
+        sourceEnv,
+        targetEnv: targetEnv.name,
+        title,
+        projectPaths: results
+          .filter((r) => r.status !== 'skipped')
+          .map((r) => r.project.fullPath),
+        results,
+      },
+      startedAt,
+    );
+    log(chalk.dim(`Run recorded as ${run.id}`));
+  };
+
+  if (plans.length === 0) {
+    log(chalk.yellow('Nothing selected to cherry-pick.'));
+    // Still record the projects whose picks could not be resolved
+    if (!options.dryRun && unplanned.some((r) => r.status === 'failed')) {
+      await finishRun(unplanned, options.title ?? defaultTitle, new Date());
+    }
+    return;
+  }
+
+  let title = options.title;
+  if (!title) {
+    title = await promptInput('MR title:', defaultTitle);
+  }
+
+  log(
     chalk.cyan(
-      `\nBackport: ${sourceEnv} → ${targetEnv.name} (${pairs.length} MR${pairs.length !== 1 ? 's' : ''})`,
+      `\nCherry-pick backport: ${sourceEnv} → ${targetEnv.name} (${plans.length} MR${plans.length !== 1 ? 's' : ''})`,
     ),
   );
-
-  const previewTable = new Table({
-    head: ['Project', 'Source Branch', 'Target Branch'],
-    style: { head: ['cyan'] },
-  });
-  for (const pair of pairs) {
-    previewTable.push([
-      pair.project.name,
-      pair.sourceBranch,
-      pair.targetBranch,
-    ]);
-  }
-  console.log(previewTable.toString());
+  printCherryPickPreview(plans);
 
   if (options.dryRun) {
-    console.log(chalk.yellow('\n--dry-run: No MRs created.'));
+    log(chalk.yellow('\n--dry-run: No branches or MRs created.'));
     return;
   }
 
-  const client = createGitlabClient();
-  const spinner = ora('Creating merge requests...').start();
+  const startedAt = new Date();
+  const branch = backportBranchName(targetEnv.name, startedAt);
+  const pickSpinner = startSpinner(`Cherry-picking onto ${branch}...`);
+  const prepared = await prepareCherryPickBranches(client, plans, branch, {
+    concurrency,
+    onProgress: (done, total) => {
+      pickSpinner.text = `Cherry-picking onto ${branch}... (${done}/${total} done)`;
+    },
+  });
+  pickSpinner.stop();
 
-  const results = await executeMergeRequests(
+  const pairs = prepared.flatMap((p) => (p.pair ? [p.pair] : []));
+  const spinner = startSpinner('Creating merge requests...');
+  const mrResults = await executeMergeRequests(
     client,
     pairs,
     title,
     options.description,
+    {
+      concurrency,
+      onProgress: (done, total) => {
+        spinner.text = `Creating merge requests... (${done}/${total} done)`;
+      },
+      autoMerge:
+        (options.autoMerge ?? targetEnv.autoMerge)
+          ? {
+              squash: options.squash,
+              removeSourceBranch: options.removeSourceBranch ?? false,
+            }
+          : undefined,
+      generateDescription: options.generateDescription,
+      metadata,
+    },
   );
-
   spinner.stop();
-  printResults(results);
-}
 
-function printResults(results: MergeRequestResult[]): void {
-  const table = new Table({
-    head: ['Project', 'Status', 'URL'],
-    style: { head: ['cyan'] },
-  });
+  // Restore the original project order
+  const byPath = new Map(unplanned.map((r) => [r.project.fullPath, r]));
+  let next = 0;
+  for (const p of prepared) {
+    const result = p.result ?? mrResults[next++];
+    byPath.set(result.project.fullPath, result);
+  }
+  await finishRun(
+    projects.flatMap((p) => byPath.get(p.fullPath) ?? []),
+    title,
+    startedAt,
+  );
+}
 
-  for (const r of results) {
-    const statusText =
-      r.status === 'created'
-        ? chalk.green('Created')
-        : r.status === 'updated'
-          ? chalk.yellow('Updated')
-          : chalk.red(`Failed: ${r.error}`);
+async function selectCherryPicks(
+  client: GitlabClient,
+  options: BackportOptions,
+  project: ProjectConfig,
+  sourceBranch: string,
+): Promise<CherryPick[]> {
+  if (options.commits) {
+    return options.commits.map((sha) => ({ sha, label: sha.slice(0, 8) }));
+  }
 
-    table.push([r.project.name, statusText, r.mrUrl || '-']);
+  if (options.mrs) {
+    return resolveMergeRequestPicks(client, project, sourceBranch, options.mrs);
   }
 
-  console.log(table.toString());
+  const spinner = startSpinner(`Fetching merged MRs for "${project.name}"...`);
+  let merged;
+  try {
+    merged = await client.listMergedMergeRequests(
+      project.externalId,
+      sourceBranch,
+    );
+  } finally {
+    spinner.stop();
+  }
 
-  const created = results.filter((r) => r.status === 'created').length;
-  const updated = results.filter((r) => r.status === 'updated').length;
-  const failed = results.filter((r) => r.status === 'failed').length;
+  if (merged.length === 0) {
+    log(
+      chalk.dim(`  No merged MRs into ${sourceBranch} in "${project.name}".`),
+    );
+    return [];
+  }
 
-  console.log(
-    `\n${chalk.green(`${created} created`)}, ${chalk.yellow(`${updated} updated`)}, ${chalk.red(`${failed} failed`)}`,
+  return promptCheckbox(
+    `MRs to backport from "${project.name}":`,
+    merged.map((mr) => ({
+      name: `!${mr.iid} ${mr.title} ${chalk.dim(`(${mr.authorName})`)}`,
+      value: { sha: mr.mergedCommitSha, label: `!${mr.iid} ${mr.title}` },
+    })),
   );
 }
@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { execSync } from 'child_process';
-import { loadConfig } from '../../config/manager.js';
+import { loadConfig, serializeConfig } from '../../config/manager.js';
 
 export function configExportCommand(): Command {
   return new Command('export')
@@ -9,17 +9,17 @@ export function configExportCommand(): Command {
     .action(runConfigExport);
 }
 
+// Only the config goes to stdout so it can be piped into `config import -`
 async function runConfigExport(): Promise<void> {
-  const config = loadConfig();
-  const json = JSON.stringify(config, null, 2);
+  const json = serializeConfig(loadConfig());
 
-  console.log(json);
+  process.stdout.write(json);
 
   try {
     copyToClipboard(json);
-    console.log(chalk.green('\nConfig copied to clipboard.'));
+    console.error(chalk.green('\nConfig copied to clipboard.'));
   } catch {
-    console.log(
+    console.error(
       chalk.yellow(
         '\nCould not copy to clipboard — paste the output above manually.',
       ),
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { serializeConfig } from '../../config/manager.js';
+import { diffConfigs, mergeConfigs } from '../../config/merge.js';
+import type { HusgitConfig } from '../../types.js';
+import { parseImportedConfig } from './import.js';
+
+const config: HusgitConfig = {
+  version: 1,
+  gitlabUrl: 'https://gitlab.com',
+  environments: [
+    { name: 'dev', order: 0 },
+    { name: 'prod', order: 1 },
+  ],
+  groups: { backend: { projectPaths: ['acme/api'] } },
+  projects: {
+    'acme/api': {
+      externalId: '1',
+      name: 'api',
+      fullPath: 'acme/api',
+      branchMap: { dev: 'develop', prod: 'main' },
+    },
+  },
+  concurrency: 8,
+};
+
+describe('parseImportedConfig', () => {
+  it('reads back what config export writes', () => {
+    const theirs = parseImportedConfig(serializeConfig(config));
+
+    expect(diffConfigs(config, theirs)).toEqual([]);
+    expect(
+      diffConfigs(
+        config,
+        mergeConfigs(config, theirs, () => 'theirs'),
+      ),
+    ).toEqual([]);
+  });
+
+  it('migrates files without a version', () => {
+    const { version: _version, ...unversioned } = config;
+
+    expect(parseImportedConfig(JSON.stringify(unversioned))).toMatchObject({
+      version: 1,
+      projects: config.projects,
+    });
+  });
+
+  it('does not add the defaults validateConfig fills in', () => {
+    const theirs = parseImportedConfig(
+      JSON.stringify({
+        environments: config.environments,
+        projects: config.projects,
+      }),
+    );
+
+    expect(theirs).not.toHaveProperty('gitlabUrl');
+  });
+
+  it('rejects an invalid file', () => {
+    expect(() => parseImportedConfig('{"environments": "dev"}')).toThrow();
+  });
+});
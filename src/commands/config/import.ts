@@ -0,0 +1,202 @@
+import { Command, InvalidArgumentError } from 'commander';
+import { readFileSync } from 'node:fs';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import {
+  backupConfigFile,
+  loadGlobalConfig,
+  saveConfig,
+  validateConfig,
+} from '../../config/manager.js';
+import {
+  diffConfigs,
+  findConflicts,
+  mergeConfigs,
+  type ConfigChange,
+  type MergeSide,
+} from '../../config/merge.js';
+import { migrateConfig } from '../../config/migrations.js';
+import { log } from '../../ui/output.js';
+import { promptConfirm, promptSelect, readStdin } from '../../ui/prompts.js';
+import type { HusgitConfig } from '../../types.js';
+import { resolvePath } from './set.js';
+import { summarizeConfigValue } from './show.js';
+
+type PreferOption = MergeSide | 'ask';
+
+interface ConfigImportOptions {
+  merge?: boolean;
+  prefer: PreferOption;
+  dryRun?: boolean;
+  yes?: boolean;
+}
+
+function parsePrefer(value: string): PreferOption {
+  if (value !== 'ours' && value !== 'theirs' && value !== 'ask') {
+    throw new InvalidArgumentError('Must be one of: ours, theirs, ask.');
+  }
+  return value;
+}
+
+export function configImportCommand(): Command {
+  return new Command('import')
+    .description('Import a config file, replacing or merging into yours')
+    .argument('<file>', 'Path to a JSON config file, or - for stdin')
+    .option('--merge', 'Merge into the current config instead of replacing it')
+    .option(
+      '--prefer <side>',
+      'On conflicts keep ours, take theirs, or ask for each',
+      parsePrefer,
+      'ask',
+    )
+    .option('--dry-run', 'Only show what would change')
+    .option('-y, --yes', 'Skip confirmation')
+    .action(runConfigImport);
+}
+
+async function runConfigImport(
+  file: string,
+  options: ConfigImportOptions,
+): Promise<void> {
+  // Once stdin is consumed there is nothing left to prompt with
+  const fromStdin = file === '-';
+  if (fromStdin && !options.yes && !options.dryRun) {
+    log(
+      chalk.red(
+        'Reading from stdin leaves no way to confirm. Pass --yes to apply the changes, or --dry-run to only list them.',
+      ),
+    );
+    return;
+  }
+
+  let theirs: HusgitConfig;
+  try {
+    theirs = parseImportedConfig(
+      fromStdin ? await readStdin() : readFileSync(resolvePath(file), 'utf-8'),
+    );
+  } catch (error: unknown) {
+    log(
+      chalk.red(
+        `✗ Error: ${error instanceof Error ? error.message : String(error)}`,
+      ),
+    );
+    return;
+  }
+
+  const ours = loadGlobalConfig();
+  let result: HusgitConfig;
+
+  if (options.merge) {
+    const conflicts = findConflicts(ours, theirs);
+    const choices = new Map<string, MergeSide>();
+
+    if (conflicts.length > 0 && options.prefer === 'ask') {
+      if (fromStdin) {
+        log(
+          chalk.red(
+            `${conflicts.length} conflict(s) found. Pass --prefer ours or --prefer theirs when reading from stdin.`,
+          ),
+        );
+        return;
+      }
+      for (const conflict of conflicts) {
+        choices.set(
+          conflict.key,
+          await promptSelect<MergeSide>(`Conflict on ${conflict.key}:`, [
+            {
+              name: `Keep ours:   ${summarizeConfigValue(conflict.key, conflict.ours)}`,
+              value: 'ours',
+            },
+            {
+              name: `Take theirs: ${summarizeConfigValue(conflict.key, conflict.theirs)}`,
+              value: 'theirs',
+            },
+          ]),
+        );
+      }
+    }
+
+    result = mergeConfigs(
+      ours,
+      theirs,
+      (key) =>
+        choices.get(key) ??
+        (options.prefer === 'ask' ? 'ours' : options.prefer),
+    );
+    try {
+      result = validateConfig(result);
+    } catch (error: unknown) {
+      log(
+        chalk.red(
+          `✗ The merged config is invalid: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      return;
+    }
+  } else {
+    result = validateConfig(theirs);
+  }
+
+  const changes = diffConfigs(ours, result);
+  if (changes.length === 0) {
+    log(chalk.green('Nothing to import: the config already matches.'));
+    return;
+  }
+  printChanges(changes);
+
+  if (options.dryRun) {
+    log(chalk.yellow('\n--dry-run: Config not changed.'));
+    return;
+  }
+
+  if (!options.yes) {
+    const ok = await promptConfirm(
+      `Apply ${changes.length} change${changes.length !== 1 ? 's' : ''}?`,
+    );
+    if (!ok) {
+      log('Cancelled.');
+      return;
+    }
+  }
+
+  const backupPath = backupConfigFile();
+  saveConfig(result);
+
+  log(chalk.green('✓ Config imported successfully'));
+  if (backupPath) {
+    log(chalk.gray(`  Backup saved: ${backupPath}`));
+  }
+}
+
+// Migrates and validates an imported file. Drops the defaults
+// validateConfig fills in so they don't conflict with ours.
+export function parseImportedConfig(content: string): HusgitConfig {
+  const raw = migrateConfig(JSON.parse(content)).config;
+  const validated = validateConfig(raw);
+  return Object.fromEntries(
+    Object.entries(validated).filter(([key]) => key in raw),
+  ) as unknown as HusgitConfig;
+}
+
+function printChanges(changes: ConfigChange[]): void {
+  const labels: Record<ConfigChange['change'], string> = {
+    added: chalk.green('+ added'),
+    changed: chalk.yellow('~ changed'),
+    removed: chalk.red('- removed'),
+  };
+
+  const table = new Table({
+    head: ['Change', 'Key', 'Details'],
+    style: { head: ['cyan'] },
+  });
+  for (const { key, change, before, after } of changes) {
+    table.push([
+      labels[change],
+      key,
+      change === 'changed'
+        ? `${summarizeConfigValue(key, before)}\n→ ${summarizeConfigValue(key, after)}`
+        : summarizeConfigValue(key, change === 'added' ? after : before),
+    ]);
+  }
+  log(table.toString());
+}
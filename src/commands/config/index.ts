@@ -1,10 +1,16 @@
 import { Command } from 'commander';
 import { configExportCommand } from './export.js';
 import { configSetCommand } from './set.js';
+import { configShowCommand } from './show.js';
+import { configMigrateCommand } from './migrate.js';
+import { configImportCommand } from './import.js';
 
 export function configCommand(): Command {
   const cmd = new Command('config').description('Manage local config');
   cmd.addCommand(configExportCommand());
   cmd.addCommand(configSetCommand());
+  cmd.addCommand(configShowCommand());
+  cmd.addCommand(configMigrateCommand());
+  cmd.addCommand(configImportCommand());
   return cmd;
 }
@@ -0,0 +1,67 @@
+import { Command } from 'commander';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import chalk from 'chalk';
+import {
+  backupConfigFile,
+  getConfigPath,
+  serializeConfig,
+} from '../../config/manager.js';
+import { CONFIG_VERSION, migrateConfig } from '../../config/migrations.js';
+import { formatLineDiff } from '../../ui/diff.js';
+import { log } from '../../ui/output.js';
+import type { HusgitConfig } from '../../types.js';
+
+export function configMigrateCommand(): Command {
+  return new Command('migrate')
+    .description(`Upgrade the config file to schema version ${CONFIG_VERSION}`)
+    .option('--dry-run', 'Show the changes without writing them')
+    .action(runConfigMigrate);
+}
+
+async function runConfigMigrate(options: { dryRun?: boolean }): Promise<void> {
+  const configPath = getConfigPath();
+  if (!existsSync(configPath)) {
+    log(chalk.yellow(`No config file at ${configPath}.`));
+    return;
+  }
+
+  let raw: unknown;
+  let migrated: ReturnType<typeof migrateConfig>;
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+    migrated = migrateConfig(raw);
+  } catch (error: unknown) {
+    log(
+      chalk.red(
+        `✗ ${configPath}: ${error instanceof Error ? error.message : String(error)}`,
+      ),
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  if (migrated.applied.length === 0) {
+    log(chalk.green(`Config is up to date (version ${CONFIG_VERSION}).`));
+    return;
+  }
+
+  log(chalk.cyan(`Migrations for ${configPath}:`));
+  for (const migration of migrated.applied) {
+    log(`  v${migration.version}: ${migration.description}`);
+  }
+
+  const after = serializeConfig(migrated.config as unknown as HusgitConfig);
+  // Both sides pretty-printed so only real changes show up
+  const before = JSON.stringify(raw, null, 2);
+  log('\n' + formatLineDiff(before, after.trimEnd()));
+
+  if (options.dryRun) {
+    log(chalk.yellow('\n--dry-run: Config not changed.'));
+    return;
+  }
+
+  const backupPath = backupConfigFile(configPath);
+  writeFileSync(configPath, after, 'utf-8');
+  log(chalk.green(`\n✓ Config migrated to version ${CONFIG_VERSION}`));
+  log(chalk.gray(`  Backup saved: ${backupPath}`));
+}
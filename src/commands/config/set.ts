@@ -1,14 +1,15 @@
 import { Command } from 'commander';
-import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
-import { resolve, dirname } from 'node:path';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
 import { homedir } from 'node:os';
 import chalk from 'chalk';
 import {
-  loadConfig,
+  backupConfigFile,
   saveConfig,
   validateConfig,
-  getConfigPath,
 } from '../../config/manager.js';
+import { migrateConfig } from '../../config/migrations.js';
+import { log } from '../../ui/output.js';
 
 export function configSetCommand(): Command {
   return new Command('set')
@@ -44,26 +45,13 @@ function runConfigSet(filePath: string): void {
       throw new Error(`Invalid JSON in file: ${(error as Error).message}`);
     }
 
-    // Validate config
-    const newConfig = validateConfig(parsedConfig);
+    // Bring configs exported by older husgit versions up to date, then validate
+    const newConfig = validateConfig(migrateConfig(parsedConfig).config);
 
     // Create backup of current config with timestamp
-    const currentConfig = loadConfig();
-    const configPath = getConfigPath();
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = configPath.replace(
-      /\.json$/,
-      `.backup.${timestamp}.json`,
-    );
-
+    let backupPath: string | undefined;
     try {
-      const configDir = dirname(configPath);
-      mkdirSync(configDir, { recursive: true });
-      writeFileSync(
-        backupPath,
-        JSON.stringify(currentConfig, null, 2) + '\n',
-        'utf-8',
-      );
+      backupPath = backupConfigFile();
     } catch (error) {
       throw new Error(`Failed to create backup: ${(error as Error).message}`);
     }
@@ -71,14 +59,16 @@ function runConfigSet(filePath: string): void {
     // Save new config
     saveConfig(newConfig);
 
-    console.log(chalk.green('✓ Config loaded successfully'));
-    console.log(chalk.gray(`  Backup saved: ${backupPath}`));
+    log(chalk.green('✓ Config loaded successfully'));
+    if (backupPath) {
+      log(chalk.gray(`  Backup saved: ${backupPath}`));
+    }
   } catch (error) {
-    console.log(chalk.red(`✗ Error: ${(error as Error).message}`));
+    log(chalk.red(`✗ Error: ${(error as Error).message}`));
   }
 }
 
-function resolvePath(filePath: string): string {
+export function resolvePath(filePath: string): string {
   // Expand tilde
   let expanded = filePath;
   if (filePath.startsWith('~')) {
@@ -0,0 +1,63 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import {
+  getConfigPath,
+  getConfigSources,
+  loadConfig,
+  loadRepoConfig,
+} from '../../config/manager.js';
+import { log } from '../../ui/output.js';
+import type { Environment, Group, ProjectConfig } from '../../types.js';
+
+export function configShowCommand(): Command {
+  return new Command('show')
+    .description('Print the effective config (global merged with the repo)')
+    .option('--sources', 'Show which file each value comes from')
+    .action(runConfigShow);
+}
+
+async function runConfigShow(options: { sources?: boolean }): Promise<void> {
+  if (!options.sources) {
+    process.stdout.write(JSON.stringify(loadConfig(), null, 2) + '\n');
+    return;
+  }
+
+  const repo = loadRepoConfig();
+  log(chalk.dim(`Global:     ${getConfigPath()}`));
+  log(chalk.dim(`Repository: ${repo?.path ?? 'none'}\n`));
+
+  const table = new Table({
+    head: ['Key', 'Value', 'Source'],
+    style: { head: ['cyan'] },
+  });
+  for (const source of getConfigSources()) {
+    table.push([
+      source.key,
+      summarizeConfigValue(source.key, source.value),
+      source.path === undefined
+        ? chalk.dim('default')
+        : source.path === repo?.path
+          ? chalk.green(source.path)
+          : source.path,
+    ]);
+  }
+  log(table.toString());
+}
+
+// One-line rendering of a value keyed as in `listSources`
+export function summarizeConfigValue(key: string, value: unknown): string {
+  if (key === 'environments') {
+    return (value as Environment[]).map((e) => e.name).join(' → ');
+  }
+  if (key.startsWith('groups.')) {
+    const { projectPaths } = value as Group;
+    return `${projectPaths.length} project${projectPaths.length !== 1 ? 's' : ''}`;
+  }
+  if (key.startsWith('projects.')) {
+    return Object.entries((value as ProjectConfig).branchMap)
+      .map(([env, branch]) => `${env}: ${branch}`)
+      .join(', ');
+  }
+  return String(value);
+}
@@ -0,0 +1,202 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import {
+  loadConfig,
+  getConcurrency,
+  getEnvironmentByName,
+  getNextEnvironment,
+} from '../config/manager.js';
+import { createGitlabClient } from '../gitlab/client.js';
+import {
+  diffBranchPairs,
+  listChangeCommits,
+  type BranchDiff,
+} from '../services/branchDiff.js';
+import { parsePositiveIntOption } from '../ui/options.js';
+import { startSpinner, log } from '../ui/output.js';
+import type { BranchPair } from '../types.js';
+import { selectProjects } from './promote.js';
+
+const MAX_LISTED_COMMITS = 20;
+
+interface DiffOptions {
+  group?: string;
+  all?: boolean;
+  projects?: string;
+  summary?: boolean;
+  concurrency?: number;
+}
+
+export function diffCommand(): Command {
+  return new Command('diff')
+    .description('Show what would move from one environment to another')
+    .argument('<source-env>', 'Source environment name')
+    .argument('[target-env]', 'Target environment (default: the next one)')
+    .option('--group <name>', 'Target a specific group')
+    .option('--all', 'Target all projects')
+    .option('--projects <paths>', 'Comma-separated project fullPaths')
+    .option('--summary', 'One line per project instead of full details')
+    .option(
+      '--concurrency <n>',
+      'Number of projects processed in parallel',
+      parsePositiveIntOption,
+    )
+    .action(runDiff);
+}
+
+async function runDiff(
+  sourceEnvName: string,
+  targetEnvName: string | undefined,
+  options: DiffOptions,
+): Promise<void> {
+  const config = loadConfig();
+
+  if (!getEnvironmentByName(config, sourceEnvName)) {
+    log(chalk.red(`Environment "${sourceEnvName}" not found.`));
+    return;
+  }
+
+  const targetEnv = targetEnvName
+    ? getEnvironmentByName(config, targetEnvName)
+    : getNextEnvironment(config, sourceEnvName);
+  if (!targetEnv) {
+    log(
+      chalk.red(
+        targetEnvName
+          ? `Environment "${targetEnvName}" not found.`
+          : `No next environment after "${sourceEnvName}". Pass a target environment.`,
+      ),
+    );
+    return;
+  }
+  if (targetEnv.name === sourceEnvName) {
+    log(chalk.red('Source and target environments must differ.'));
+    return;
+  }
+
+  const projects = await selectProjects(config, options, sourceEnvName);
+  if (!projects) return;
+
+  const pairs: BranchPair[] = [];
+  for (const project of projects) {
+    const sourceBranch = project.branchMap[sourceEnvName];
+    const targetBranch = project.branchMap[targetEnv.name];
+    if (!sourceBranch || !targetBranch) {
+      log(
+        chalk.dim(
+          `Skipping "${project.name}": no branch mapped for "${sourceEnvName}" or "${targetEnv.name}".`,
+        ),
+      );
+      continue;
+    }
+    pairs.push({ project, sourceBranch, targetBranch });
+  }
+
+  if (pairs.length === 0) {
+    log(chalk.yellow('No projects to compare.'));
+    return;
+  }
+
+  const client = createGitlabClient();
+  const spinner = startSpinner('Comparing branches...');
+  const diffs = await diffBranchPairs(client, pairs, {
+    concurrency: getConcurrency(config, options.concurrency),
+    onProgress: (done, total) => {
+      spinner.text = `Comparing branches... (${done}/${total} done)`;
+    },
+  });
+  spinner.stop();
+
+  log(chalk.cyan(`\nDiff: ${sourceEnvName} → ${targetEnv.name}`));
+  if (options.summary) {
+    printDiffSummary(diffs);
+  } else {
+    diffs.forEach(printDiffDetails);
+  }
+}
+
+function printDiffSummary(diffs: BranchDiff[]): void {
+  const table = new Table({
+    head: ['Project', 'Branches', 'Ahead', 'Behind', 'MRs', 'Files'],
+    style: { head: ['cyan'] },
+  });
+
+  for (const d of diffs) {
+    const branches = `${d.pair.sourceBranch} → ${d.pair.targetBranch}`;
+    if (d.error) {
+      table.push([
+        d.pair.project.name,
+        branches,
+        { colSpan: 4, content: chalk.red(`Failed: ${d.error}`) },
+      ]);
+      continue;
+    }
+    table.push([
+      d.pair.project.name,
+      branches,
+      d.ahead.length > 0 ? chalk.green(String(d.ahead.length)) : chalk.dim('0'),
+      d.behind.length > 0
+        ? chalk.yellow(String(d.behind.length))
+        : chalk.dim('0'),
+      String(d.mergedRequests.length),
+      String(d.filesChanged),
+    ]);
+  }
+
+  log(table.toString());
+
+  const pending = diffs.filter((d) => !d.error && d.ahead.length > 0).length;
+  const failed = diffs.filter((d) => d.error).length;
+  log(
+    `\n${chalk.green(`${pending} with changes`)}, ${chalk.dim(`${diffs.length - pending - failed} up to date`)}, ${chalk.red(`${failed} failed`)}`,
+  );
+}
+
+function printDiffDetails(diff: BranchDiff): void {
+  const { project, sourceBranch, targetBranch } = diff.pair;
+  log(
+    `\n${chalk.bold(project.name)} ${chalk.dim(`${sourceBranch} → ${targetBranch}`)}`,
+  );
+
+  if (diff.error) {
+    log(chalk.red(`  Failed: ${diff.error}`));
+    return;
+  }
+
+  log(
+    `  ${diff.ahead.length} ahead, ${diff.behind.length} behind, ${diff.filesChanged} file${diff.filesChanged !== 1 ? 's' : ''} changed`,
+  );
+  if (diff.ahead.length === 0) {
+    log(chalk.dim('  Up to date'));
+    return;
+  }
+
+  if (diff.mergedRequests.length > 0) {
+    log(chalk.cyan('  Merge requests:'));
+    for (const mr of diff.mergedRequests) {
+      log(`    !${mr.iid} ${mr.title} ${chalk.dim(`(${mr.authorName})`)}`);
+    }
+  }
+
+  const commits = listChangeCommits(diff);
+  if (commits.length > 0) {
+    log(chalk.cyan('  Commits:'));
+    for (const c of commits.slice(0, MAX_LISTED_COMMITS)) {
+      log(
+        `    ${chalk.yellow(c.shortId)} ${c.title} ${chalk.dim(`(${c.authorName})`)}`,
+      );
+    }
+    if (commits.length > MAX_LISTED_COMMITS) {
+      log(chalk.dim(`    … and ${commits.length - MAX_LISTED_COMMITS} more`));
+    }
+  }
+
+  if (diff.behind.length > 0) {
+    log(
+      chalk.yellow(
+        `  ${targetBranch} has ${diff.behind.length} commit${diff.behind.length !== 1 ? 's' : ''} that ${sourceBranch} lacks`,
+      ),
+    );
+  }
+}
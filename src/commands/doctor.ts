@@ -0,0 +1,133 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { loadConfig, getConcurrency, getTokenEnv } from '../config/manager.js';
+import { createGitlabClient, type GitlabClient } from '../gitlab/client.js';
+import {
+  checkMappings,
+  checkProjects,
+  checkToken,
+  type CheckStatus,
+  type DoctorCheck,
+} from '../services/doctor.js';
+import { parsePositiveIntOption } from '../ui/options.js';
+import {
+  isTableOutput,
+  log,
+  startSpinner,
+  writeRecords,
+} from '../ui/output.js';
+
+const STATUS_LABELS: Record<CheckStatus, string> = {
+  pass: chalk.green('✓ pass'),
+  warn: chalk.yellow('⚠ warn'),
+  fail: chalk.red('✗ fail'),
+};
+
+export function doctorCommand(): Command {
+  return new Command('doctor')
+    .description(
+      "Check the GitLab token, connectivity and every project's branch map",
+    )
+    .option(
+      '--concurrency <n>',
+      'Number of projects processed in parallel',
+      parsePositiveIntOption,
+    )
+    .action(runDoctor);
+}
+
+async function runDoctor(options: { concurrency?: number }): Promise<void> {
+  const config = loadConfig();
+  const checks: DoctorCheck[] = [];
+  const tokenEnv = getTokenEnv(config);
+
+  let client: GitlabClient | undefined;
+  try {
+    client = createGitlabClient(config);
+  } catch (error: unknown) {
+    checks.push({
+      subject: 'token',
+      check: 'connectivity',
+      status: 'fail',
+      message: (error instanceof Error ? error.message : String(error)).split(
+        '\n',
+      )[0],
+      fix: `husgit auth login (or export ${tokenEnv}=your-token)`,
+    });
+  }
+
+  if (client) {
+    const spinner = startSpinner('Checking token...');
+    checks.push(...(await checkToken(client, tokenEnv)));
+    spinner.stop();
+  }
+
+  checks.push(...checkMappings(config));
+
+  // Without a working token every project check would fail the same way
+  const connected = checks.some(
+    (c) => c.check === 'connectivity' && c.status === 'pass',
+  );
+  if (client && connected) {
+    const spinner = startSpinner('Checking projects...');
+    checks.push(
+      ...(await checkProjects(client, config, {
+        concurrency: getConcurrency(config, options.concurrency),
+        onProgress: (done, total) => {
+          spinner.text = `Checking projects... (${done}/${total} done)`;
+        },
+      })),
+    );
+    spinner.stop();
+  }
+
+  if (checks.some((c) => c.status === 'fail')) {
+    process.exitCode = 1;
+  }
+
+  if (!isTableOutput()) {
+    writeRecords(
+      checks.map((c) => ({
+        subject: c.subject,
+        check: c.check,
+        status: c.status,
+        message: c.message,
+        fix: c.fix ?? null,
+      })),
+    );
+    return;
+  }
+
+  printReport(checks);
+}
+
+function printReport(checks: DoctorCheck[]): void {
+  const table = new Table({
+    head: ['Status', 'Subject', 'Check', 'Details'],
+    style: { head: ['cyan'] },
+  });
+  for (const c of checks) {
+    table.push([STATUS_LABELS[c.status], c.subject, c.check, c.message]);
+  }
+  log(table.toString());
+
+  const fixes = [...new Set(checks.filter((c) => c.fix).map((c) => c.fix!))];
+  if (fixes.length > 0) {
+    log(chalk.cyan('\nSuggested fixes:'));
+    for (const fix of fixes) {
+      log(`  ${fix}`);
+    }
+  }
+
+  const count = (status: CheckStatus) =>
+    checks.filter((c) => c.status === status).length;
+  const summary = `\n${count('pass')} passed, ${count('warn')} warning(s), ${count('fail')} failed`;
+  log(
+    count('fail') > 0
+      ? chalk.red(summary)
+      : count('warn') > 0
+        ? chalk.yellow(summary)
+        : chalk.green(summary),
+  );
+}
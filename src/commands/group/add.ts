@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { loadConfig, saveConfig, addGroup } from '../../config/manager.js';
+import { log } from '../../ui/output.js';
 
 export function groupAddCommand(): Command {
   return new Command('add')
@@ -14,9 +15,9 @@ async function runGroupAdd(name: string): Promise<void> {
   try {
     addGroup(config, name);
     saveConfig(config);
-    console.log(chalk.green(`Group "${name}" created.`));
+    log(chalk.green(`Group "${name}" created.`));
   } catch (error: unknown) {
-    console.log(
+    log(
       chalk.red(error instanceof Error ? error.message : 'Failed to add group'),
     );
   }
@@ -1,6 +1,5 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
 import {
   loadConfig,
   saveConfig,
@@ -10,6 +9,7 @@ import {
   getGroupNames,
 } from '../../config/manager.js';
 import { createGitlabClient } from '../../gitlab/client.js';
+import { log, startSpinner } from '../../ui/output.js';
 import {
   promptConfirm,
   promptSearch,
@@ -36,12 +36,12 @@ async function runGroupAddProject(
   const config = loadConfig();
 
   if (groupArg && !config.groups[groupArg]) {
-    console.log(chalk.red(`Group "${groupArg}" does not exist.`));
+    log(chalk.red(`Group "${groupArg}" does not exist.`));
     return;
   }
 
   if (!hasEnvironments(config)) {
-    console.log(
+    log(
       chalk.red('No environments configured. Run "husgit setup flow" first.'),
     );
     return;
@@ -50,7 +50,7 @@ async function runGroupAddProject(
   const client = createGitlabClient();
 
   if (options.projectId) {
-    const spinner = ora('Fetching project...').start();
+    const spinner = startSpinner('Fetching project...');
     let project: GitlabProject;
     try {
       project = await client.getProjectById(options.projectId);
@@ -69,7 +69,7 @@ async function runGroupAddProject(
     return;
   }
 
-  const spinner = ora('Fetching your GitLab projects...').start();
+  const spinner = startSpinner('Fetching your GitLab projects...');
   let allProjects: GitlabProject[];
   try {
     allProjects = await client.getUserProjects();
@@ -83,7 +83,7 @@ async function runGroupAddProject(
 
   const selected = await promptGitlabProjectCheckbox(allProjects);
   if (selected.length === 0) {
-    console.log('No projects selected.');
+    log('No projects selected.');
     return;
   }
 
@@ -92,13 +92,11 @@ async function runGroupAddProject(
 
   for (const project of selected) {
     if (config.projects[project.fullPath]) {
-      console.log(
-        chalk.yellow(`  Skipping "${project.name}" — already in registry.`),
-      );
+      log(chalk.yellow(`  Skipping "${project.name}" — already in registry.`));
       continue;
     }
 
-    console.log(chalk.cyan(`\nConfiguring: ${project.name}`));
+    log(chalk.cyan(`\nConfiguring: ${project.name}`));
 
     const branchMap = await buildBranchMap(project, config, client);
 
@@ -131,23 +129,23 @@ async function runGroupAddProject(
   }
 
   if (toAdd.length === 0) {
-    console.log('Nothing to add.');
+    log('Nothing to add.');
     return;
   }
 
-  console.log(chalk.cyan('\nProjects to add:'));
+  log(chalk.cyan('\nProjects to add:'));
   for (const p of toAdd) {
     const groupName = groups[p.fullPath];
     const groupMsg = groupName ? chalk.gray(` → group: ${groupName}`) : '';
-    console.log(`  ${p.name}${groupMsg}`);
+    log(`  ${p.name}${groupMsg}`);
     for (const [env, branch] of Object.entries(p.branchMap)) {
-      console.log(`    ${env} → ${branch}`);
+      log(`    ${env} → ${branch}`);
     }
   }
 
   const ok = await promptConfirm(`Add ${toAdd.length} project(s)?`);
   if (!ok) {
-    console.log('Cancelled.');
+    log('Cancelled.');
     return;
   }
 
@@ -161,7 +159,7 @@ async function runGroupAddProject(
       }
       saved++;
     } catch (error: unknown) {
-      console.log(
+      log(
         chalk.red(
           `Failed to add "${p.name}": ${error instanceof Error ? error.message : String(error)}`,
         ),
@@ -173,13 +171,13 @@ async function runGroupAddProject(
     saveConfig(config);
   }
   if (saved < toAdd.length) {
-    console.log(
+    log(
       chalk.yellow(
         `${toAdd.length - saved} project(s) failed to add (see errors above).`,
       ),
     );
   }
-  console.log(chalk.green(`${saved} project(s) added to registry.`));
+  log(chalk.green(`${saved} project(s) added to registry.`));
 }
 
 async function addSingleProject(
@@ -190,9 +188,7 @@ async function addSingleProject(
   client: ReturnType<typeof createGitlabClient>,
 ): Promise<void> {
   if (config.projects[project.fullPath]) {
-    console.log(
-      chalk.yellow(`Project "${project.name}" is already in the registry.`),
-    );
+    log(chalk.yellow(`Project "${project.name}" is already in the registry.`));
     return;
   }
 
@@ -202,7 +198,7 @@ async function addSingleProject(
     try {
       branchMap = JSON.parse(branchMapJson);
     } catch {
-      console.log(chalk.red('Invalid JSON for --branch-map'));
+      log(chalk.red('Invalid JSON for --branch-map'));
       return;
     }
   } else {
@@ -216,11 +212,11 @@ async function addSingleProject(
     branchMap,
   };
 
-  console.log(chalk.cyan('\nProject summary:'));
-  console.log(`  Name: ${projectConfig.name}`);
-  console.log(`  ID: ${projectConfig.externalId}`);
+  log(chalk.cyan('\nProject summary:'));
+  log(`  Name: ${projectConfig.name}`);
+  log(`  ID: ${projectConfig.externalId}`);
   for (const [env, branch] of Object.entries(projectConfig.branchMap)) {
-    console.log(`  ${env} → ${branch}`);
+    log(`  ${env} → ${branch}`);
   }
 
   let groupName = groupArg;
@@ -242,7 +238,7 @@ async function addSingleProject(
 
   const ok = await promptConfirm('Add this project?');
   if (!ok) {
-    console.log('Cancelled.');
+    log('Cancelled.');
     return;
   }
 
@@ -253,9 +249,9 @@ async function addSingleProject(
     }
     saveConfig(config);
     const groupMsg = groupName ? ` and assigned to group "${groupName}"` : '';
-    console.log(chalk.green(`Project added to registry${groupMsg}.`));
+    log(chalk.green(`Project added to registry${groupMsg}.`));
   } catch (error: unknown) {
-    console.log(
+    log(
       chalk.red(
         error instanceof Error ? error.message : 'Failed to add project',
       ),
@@ -270,7 +266,7 @@ async function buildBranchMap(
 ): Promise<Record<string, string>> {
   const branchMap: Record<string, string> = {};
   for (const env of config.environments) {
-    const spinner = ora(`Fetching branches for "${env.name}"...`).start();
+    const spinner = startSpinner(`Fetching branches for "${env.name}"...`);
     const initialBranches = await client.getProjectBranches(
       project.fullPath,
       env.defaultBranch ?? '',
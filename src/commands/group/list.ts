@@ -2,6 +2,14 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import Table from 'cli-table3';
 import { loadConfig, getAllProjects } from '../../config/manager.js';
+import {
+  isTableOutput,
+  log,
+  toProjectRecord,
+  writeRecords,
+  type OutputRecord,
+} from '../../ui/output.js';
+import type { HusgitConfig } from '../../types.js';
 
 export function groupListCommand(): Command {
   return new Command('list')
@@ -16,20 +24,25 @@ async function runGroupList(options: { group?: string }): Promise<void> {
     ? [options.group]
     : Object.keys(config.groups);
 
+  if (!isTableOutput()) {
+    writeRecords(buildGroupRecords(config, groupNames, !options.group));
+    return;
+  }
+
   const envNames = config.environments.map((e) => e.name);
 
   if (groupNames.length > 0) {
     for (const groupName of groupNames) {
       const group = config.groups[groupName];
       if (!group) {
-        console.log(chalk.red(`Group "${groupName}" not found.`));
+        log(chalk.red(`Group "${groupName}" not found.`));
         continue;
       }
 
-      console.log(chalk.cyan(`\n${groupName}`));
+      log(chalk.cyan(`\n${groupName}`));
 
       if (group.projectPaths.length === 0) {
-        console.log(chalk.dim('  No projects'));
+        log(chalk.dim('  No projects'));
         continue;
       }
 
@@ -55,7 +68,7 @@ async function runGroupList(options: { group?: string }): Promise<void> {
         ]);
       }
 
-      console.log(table.toString());
+      log(table.toString());
     }
   }
 
@@ -68,7 +81,7 @@ async function runGroupList(options: { group?: string }): Promise<void> {
     const ungrouped = allProjects.filter((p) => !groupedPaths.has(p.fullPath));
 
     if (ungrouped.length > 0) {
-      console.log(chalk.cyan('\nUngrouped'));
+      log(chalk.cyan('\nUngrouped'));
       const table = new Table({
         head: ['Project', 'ID', ...envNames],
         style: { head: ['cyan'] },
@@ -80,11 +93,56 @@ async function runGroupList(options: { group?: string }): Promise<void> {
           ...envNames.map((env) => project.branchMap[env] || '-'),
         ]);
       }
-      console.log(table.toString());
+      log(table.toString());
     }
 
     if (groupNames.length === 0 && allProjects.length === 0) {
-      console.log(chalk.yellow('No projects configured.'));
+      log(chalk.yellow('No projects configured.'));
+    }
+  }
+}
+
+// One record per project and group, in the `project list` schema plus the
+// group name; ungrouped projects have `group: null`
+function buildGroupRecords(
+  config: HusgitConfig,
+  groupNames: string[],
+  includeUngrouped: boolean,
+): OutputRecord[] {
+  const projectGroups = new Map<string, string[]>();
+  for (const [groupName, group] of Object.entries(config.groups)) {
+    for (const fullPath of group.projectPaths) {
+      projectGroups.set(fullPath, [
+        ...(projectGroups.get(fullPath) ?? []),
+        groupName,
+      ]);
+    }
+  }
+
+  const records: OutputRecord[] = [];
+
+  for (const groupName of groupNames) {
+    const group = config.groups[groupName];
+    if (!group) {
+      log(chalk.red(`Group "${groupName}" not found.`));
+      continue;
+    }
+    for (const fullPath of group.projectPaths) {
+      const project = config.projects[fullPath];
+      if (!project) continue;
+      records.push({
+        group: groupName,
+        ...toProjectRecord(project, projectGroups.get(fullPath) ?? []),
+      });
     }
   }
+
+  if (includeUngrouped) {
+    for (const project of getAllProjects(config)) {
+      if (projectGroups.has(project.fullPath)) continue;
+      records.push({ group: null, ...toProjectRecord(project, []) });
+    }
+  }
+
+  return records;
 }
@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { loadConfig, saveConfig, removeGroup } from '../../config/manager.js';
+import { log } from '../../ui/output.js';
 import { promptConfirm } from '../../ui/prompts.js';
 
 export function groupRemoveCommand(): Command {
@@ -18,7 +19,7 @@ async function runGroupRemove(
   const config = loadConfig();
 
   if (!config.groups[name]) {
-    console.log(chalk.red(`Group "${name}" does not exist.`));
+    log(chalk.red(`Group "${name}" does not exist.`));
     return;
   }
 
@@ -29,7 +30,7 @@ async function runGroupRemove(
       false,
     );
     if (!ok) {
-      console.log('Cancelled.');
+      log('Cancelled.');
       return;
     }
   }
@@ -37,9 +38,9 @@ async function runGroupRemove(
   try {
     removeGroup(config, name);
     saveConfig(config);
-    console.log(chalk.green(`Group "${name}" removed.`));
+    log(chalk.green(`Group "${name}" removed.`));
   } catch (error: unknown) {
-    console.log(
+    log(
       chalk.red(
         error instanceof Error ? error.message : 'Failed to remove group',
       ),
@@ -0,0 +1,98 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { listRuns, loadRun } from '../services/runJournal.js';
+import { parsePositiveIntOption } from '../ui/options.js';
+import { log } from '../ui/output.js';
+import { printResults } from '../ui/results.js';
+import type { RunRecord } from '../types.js';
+
+const DEFAULT_LIMIT = 20;
+
+export function historyCommand(): Command {
+  return new Command('history')
+    .description('List past release/backport runs, or show one in detail')
+    .argument('[run-id]', 'Run to show')
+    .option(
+      '--limit <n>',
+      `Number of runs to list (default: ${DEFAULT_LIMIT})`,
+      parsePositiveIntOption,
+    )
+    .action(runHistory);
+}
+
+async function runHistory(
+  runId: string | undefined,
+  options: { limit?: number },
+): Promise<void> {
+  if (runId) {
+    const run = loadRun(runId);
+    if (!run) {
+      log(chalk.red(`Run "${runId}" not found.`));
+      return;
+    }
+    printRunDetails(run);
+    return;
+  }
+
+  const runs = listRuns().slice(0, options.limit ?? DEFAULT_LIMIT);
+  if (runs.length === 0) {
+    log(chalk.yellow('No runs recorded yet.'));
+    return;
+  }
+
+  const table = new Table({
+    head: ['Run', 'When', 'User', 'Direction', 'Environments', 'Title', 'MRs'],
+    style: { head: ['cyan'] },
+  });
+
+  for (const run of runs) {
+    table.push([
+      run.id,
+      formatDate(run.startedAt),
+      run.user,
+      run.mode === 'cherry-pick'
+        ? `${run.direction} (cherry-pick)`
+        : run.direction,
+      `${run.sourceEnv} → ${run.targetEnv}`,
+      run.title,
+      summarize(run),
+    ]);
+  }
+
+  log(table.toString());
+  log(chalk.dim('Show one with: husgit history <run-id>'));
+}
+
+function printRunDetails(run: RunRecord): void {
+  log(chalk.cyan(`\nRun ${run.id}`));
+  log(`  When:         ${formatDate(run.startedAt)}`);
+  if (run.retriedAt) {
+    log(`  Retried:      ${formatDate(run.retriedAt)}`);
+  }
+  if (run.undoneAt) {
+    log(`  Undone:       ${formatDate(run.undoneAt)}`);
+  } else if (run.undoFailures) {
+    log(`  Undo failed:  ${run.undoFailures.join(', ')}`);
+  }
+  log(`  User:         ${run.user}`);
+  log(
+    `  Direction:    ${run.direction}${run.mode === 'cherry-pick' ? ' (cherry-pick)' : ''}`,
+  );
+  log(`  Environments: ${run.sourceEnv} → ${run.targetEnv}`);
+  log(`  Title:        ${run.title}`);
+  log(`  Projects:     ${run.projectPaths.length}\n`);
+  printResults(run.results);
+}
+
+function summarize(run: RunRecord): string {
+  const counts = new Map<string, number>();
+  for (const r of run.results) {
+    counts.set(r.status, (counts.get(r.status) ?? 0) + 1);
+  }
+  return Array.from(counts, ([status, n]) => `${n} ${status}`).join(', ');
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
@@ -1,6 +1,8 @@
 import chalk from 'chalk';
 import {
   loadConfig,
+  getActiveProfile,
+  getGitlabUrl,
   hasEnvironments,
   getGroupNames,
   getAllProjects,
@@ -14,7 +16,9 @@ type MenuAction =
   | 'projects'
   | 'release'
   | 'backport'
+  | 'merge'
   | 'status'
+  | 'history'
   | 'config'
   | 'exit';
 
@@ -43,6 +47,9 @@ export async function interactiveMenu(): Promise<void> {
 
   const chain = config.environments.map((e) => e.name).join(' → ');
   const projectCount = getAllProjects(config).length;
+  console.log(
+    chalk.dim(`  Profile: ${getActiveProfile()} (${getGitlabUrl(config)})`),
+  );
   console.log(chalk.dim(`  Flow: ${chain}`));
   console.log(
     chalk.dim(`  Groups: ${getGroupNames(config).join(', ') || 'none'}`),
@@ -57,7 +64,9 @@ export async function interactiveMenu(): Promise<void> {
       { name: 'Manage Projects', value: 'projects' },
       { name: 'Release', value: 'release' },
       { name: 'Back-port', value: 'backport' },
+      { name: 'Merge ready MRs', value: 'merge' },
       { name: 'Status', value: 'status' },
+      { name: 'History', value: 'history' },
       { name: 'Export Config', value: 'config' },
       { name: 'Exit', value: 'exit' },
     ]);
@@ -94,6 +103,13 @@ export async function interactiveMenu(): Promise<void> {
         break;
       }
 
+      case 'merge': {
+        const { mergeCommand } = await import('./merge.js');
+        const cmd = mergeCommand();
+        await cmd.parseAsync(['node', 'merge']);
+        break;
+      }
+
       case 'status': {
         const { statusCommand } = await import('./status.js');
         const cmd = statusCommand();
@@ -101,6 +117,13 @@ export async function interactiveMenu(): Promise<void> {
         break;
       }
 
+      case 'history': {
+        const { historyCommand } = await import('./history.js');
+        const cmd = historyCommand();
+        await cmd.parseAsync(['node', 'history']);
+        break;
+      }
+
       case 'config': {
         const { configExportCommand } = await import('./config/export.js');
         const cmd = configExportCommand();
@@ -0,0 +1,195 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import {
+  loadConfig,
+  getConcurrency,
+  getNextEnvironment,
+} from '../config/manager.js';
+import { createGitlabClient } from '../gitlab/client.js';
+import { resolveBranchPairs } from '../services/flowExecution.js';
+import {
+  findMergeCandidates,
+  getMergeBlockers,
+  isReadyToMerge,
+  mergeCandidates,
+  type MergeCandidate,
+} from '../services/merging.js';
+import { parsePositiveIntOption } from '../ui/options.js';
+import { log, startSpinner } from '../ui/output.js';
+import { promptSelect, promptCheckbox, promptConfirm } from '../ui/prompts.js';
+import {
+  formatMergeStatus,
+  formatPipelineStatus,
+  printMergeResults,
+} from '../ui/results.js';
+import { selectProjects } from './promote.js';
+
+interface MergeCommandOptions {
+  group?: string;
+  all?: boolean;
+  projects?: string;
+  squash?: boolean;
+  yes?: boolean;
+  dryRun?: boolean;
+  concurrency?: number;
+}
+
+export function mergeCommand(): Command {
+  return new Command('merge')
+    .description(
+      'Merge the ready release MRs from an environment into the next one',
+    )
+    .argument('[source-env]', 'Source environment name')
+    .option('--group <name>', 'Target a specific group')
+    .option('--all', 'Target all projects')
+    .option('--projects <paths>', 'Comma-separated project fullPaths')
+    .option('--squash', 'Squash commits when merging')
+    .option('-y, --yes', 'Merge every ready MR without prompting')
+    .option('--dry-run', 'Show which MRs are ready without merging')
+    .option(
+      '--concurrency <n>',
+      'Number of projects processed in parallel',
+      parsePositiveIntOption,
+    )
+    .action(runMerge);
+}
+
+async function runMerge(
+  sourceEnvArg: string | undefined,
+  options: MergeCommandOptions,
+): Promise<void> {
+  const config = loadConfig();
+  const concurrency = getConcurrency(config, options.concurrency);
+
+  let sourceEnv: string;
+  if (sourceEnvArg) {
+    sourceEnv = sourceEnvArg;
+  } else {
+    const releasableEnvs = config.environments.filter(
+      (_e, i) => i < config.environments.length - 1,
+    );
+    if (releasableEnvs.length === 0) {
+      log(chalk.red('Not enough environments to merge.'));
+      return;
+    }
+    sourceEnv = await promptSelect<string>(
+      'Source environment:',
+      releasableEnvs.map((e) => ({ name: e.name, value: e.name })),
+    );
+  }
+
+  const targetEnv = getNextEnvironment(config, sourceEnv);
+  if (!targetEnv) {
+    log(chalk.red(`No next environment after "${sourceEnv}". Cannot merge.`));
+    return;
+  }
+
+  const projects = await selectProjects(config, options, sourceEnv);
+  if (!projects) return;
+
+  const pairs = resolveBranchPairs(config, sourceEnv, 'release', projects);
+  if (pairs.length === 0) {
+    log(chalk.yellow('No projects to merge.'));
+    return;
+  }
+
+  const client = createGitlabClient();
+  const spinner = startSpinner('Looking up open MRs...');
+  const candidates = await findMergeCandidates(client, pairs, {
+    concurrency,
+    onProgress: (done, total) => {
+      spinner.text = `Looking up open MRs... (${done}/${total} done)`;
+    },
+  });
+  spinner.stop();
+
+  log(chalk.cyan(`\nMerge: ${sourceEnv} → ${targetEnv.name}`));
+  printCandidates(candidates);
+
+  const ready = candidates.filter(isReadyToMerge);
+  if (ready.length === 0) {
+    log(chalk.yellow('\nNo MR is ready to merge.'));
+    return;
+  }
+
+  if (options.dryRun) {
+    log(chalk.yellow('\n--dry-run: No MRs merged.'));
+    return;
+  }
+
+  let selected = ready;
+  if (!options.yes) {
+    selected = await promptCheckbox(
+      'MRs to merge:',
+      ready.map((c) => ({
+        name: `${c.pair.project.name} !${c.mr!.iid}`,
+        value: c,
+        checked: true,
+      })),
+    );
+    if (selected.length === 0) {
+      log(chalk.yellow('No MRs selected.'));
+      return;
+    }
+
+    const ok = await promptConfirm(
+      `Merge ${selected.length} MR${selected.length !== 1 ? 's' : ''} into ${targetEnv.name}?`,
+      false,
+    );
+    if (!ok) {
+      log('Cancelled.');
+      return;
+    }
+  }
+
+  const mergeSpinner = startSpinner('Merging...');
+  const outcomes = await mergeCandidates(
+    client,
+    candidates,
+    new Set(selected),
+    {
+      squash: options.squash,
+      concurrency,
+      onProgress: (done, total) => {
+        mergeSpinner.text = `Merging... (${done}/${total} done)`;
+      },
+    },
+  );
+  mergeSpinner.stop();
+
+  printMergeResults(outcomes);
+}
+
+function printCandidates(candidates: MergeCandidate[]): void {
+  const table = new Table({
+    head: ['Project', 'MR', 'Pipeline', 'Merge status', 'Approvals', 'Ready'],
+    style: { head: ['cyan'] },
+  });
+
+  for (const c of candidates) {
+    if (!c.mr) {
+      table.push([
+        c.pair.project.name,
+        c.error ? chalk.red(`Failed: ${c.error}`) : chalk.dim('no open MR'),
+        '-',
+        '-',
+        '-',
+        '-',
+      ]);
+      continue;
+    }
+
+    const blockers = getMergeBlockers(c.mr);
+    table.push([
+      c.pair.project.name,
+      c.mr.webUrl,
+      formatPipelineStatus(c.mr.pipelineStatus),
+      formatMergeStatus(c.mr.mergeStatus),
+      String(c.mr.approvals),
+      blockers.length === 0 ? chalk.green('yes') : chalk.yellow('no'),
+    ]);
+  }
+
+  log(table.toString());
+}
@@ -0,0 +1,56 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  createProfile,
+  DEFAULT_TOKEN_ENV,
+  useProfile,
+} from '../../config/manager.js';
+import { log } from '../../ui/output.js';
+import { promptInput } from '../../ui/prompts.js';
+
+interface ProfileCreateOptions {
+  gitlabUrl?: string;
+  tokenEnv?: string;
+  use?: boolean;
+}
+
+export function profileCreateCommand(): Command {
+  return new Command('create')
+    .description('Create an empty profile for a GitLab instance')
+    .argument('<name>', 'Profile name')
+    .option('--gitlab-url <url>', 'GitLab instance URL')
+    .option(
+      '--token-env <name>',
+      `Environment variable holding the token (default: ${DEFAULT_TOKEN_ENV})`,
+    )
+    .option('--use', 'Make it the active profile')
+    .action(runProfileCreate);
+}
+
+async function runProfileCreate(
+  name: string,
+  options: ProfileCreateOptions,
+): Promise<void> {
+  const gitlabUrl = (
+    options.gitlabUrl ??
+    (await promptInput('GitLab URL:', 'https://gitlab.com'))
+  ).replace(/\/+$/, '');
+
+  try {
+    createProfile(name, { gitlabUrl, tokenEnv: options.tokenEnv });
+    if (options.use) useProfile(name);
+  } catch (error: unknown) {
+    log(
+      chalk.red(
+        error instanceof Error ? error.message : 'Failed to create profile',
+      ),
+    );
+    return;
+  }
+
+  log(chalk.green(`Profile "${name}" created for ${gitlabUrl}.`));
+  const usage = options.use
+    ? 'husgit setup flow'
+    : `husgit --profile ${name} setup flow`;
+  log(chalk.dim(`Configure its environments with "${usage}".`));
+}
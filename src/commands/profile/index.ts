@@ -0,0 +1,14 @@
+import { Command } from 'commander';
+import { profileListCommand } from './list.js';
+import { profileUseCommand } from './use.js';
+import { profileCreateCommand } from './create.js';
+
+export function profileCommand(): Command {
+  const cmd = new Command('profile').description(
+    'Manage named profiles (one per GitLab instance)',
+  );
+  cmd.addCommand(profileListCommand());
+  cmd.addCommand(profileUseCommand());
+  cmd.addCommand(profileCreateCommand());
+  return cmd;
+}
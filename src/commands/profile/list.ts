@@ -0,0 +1,53 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import {
+  getActiveProfile,
+  getAllProjects,
+  getGitlabUrl,
+  getTokenEnv,
+  listProfiles,
+  loadConfig,
+} from '../../config/manager.js';
+import { isTableOutput, log, writeRecords } from '../../ui/output.js';
+
+export function profileListCommand(): Command {
+  return new Command('list')
+    .description('List profiles')
+    .action(runProfileList);
+}
+
+async function runProfileList(): Promise<void> {
+  const active = getActiveProfile();
+  const profiles = listProfiles().map((name) => {
+    const config = loadConfig(name);
+    return {
+      name,
+      active: name === active,
+      gitlabUrl: getGitlabUrl(config, name),
+      tokenEnv: getTokenEnv(config),
+      environments: config.environments.length,
+      projects: getAllProjects(config).length,
+    };
+  });
+
+  if (!isTableOutput()) {
+    writeRecords(profiles);
+    return;
+  }
+
+  const table = new Table({
+    head: ['Profile', 'GitLab URL', 'Token', 'Environments', 'Projects'],
+    style: { head: ['cyan'] },
+  });
+  for (const p of profiles) {
+    table.push([
+      p.active ? chalk.green(`● ${p.name}`) : `  ${p.name}`,
+      p.gitlabUrl,
+      p.tokenEnv,
+      p.environments,
+      p.projects,
+    ]);
+  }
+  log(table.toString());
+}
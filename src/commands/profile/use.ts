@@ -0,0 +1,24 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { useProfile } from '../../config/manager.js';
+import { log } from '../../ui/output.js';
+
+export function profileUseCommand(): Command {
+  return new Command('use')
+    .description('Make a profile the active one')
+    .argument('<name>', 'Profile name')
+    .action(runProfileUse);
+}
+
+async function runProfileUse(name: string): Promise<void> {
+  try {
+    useProfile(name);
+    log(chalk.green(`Switched to profile "${name}".`));
+  } catch (error: unknown) {
+    log(
+      chalk.red(
+        error instanceof Error ? error.message : 'Failed to switch profile',
+      ),
+    );
+  }
+}
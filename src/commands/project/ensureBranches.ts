@@ -0,0 +1,192 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import {
+  loadConfig,
+  getAllProjects,
+  getConcurrency,
+  getEnvironmentByName,
+} from '../../config/manager.js';
+import { createGitlabClient, type GitlabClient } from '../../gitlab/client.js';
+import {
+  checkBranches,
+  createMissingBranches,
+  canCreate,
+  type BranchTarget,
+} from '../../services/branches.js';
+import { parsePositiveIntOption } from '../../ui/options.js';
+import { log, startSpinner } from '../../ui/output.js';
+import { promptConfirm } from '../../ui/prompts.js';
+import type { HusgitConfig, ProjectConfig } from '../../types.js';
+
+export interface EnsureBranchesOptions {
+  yes?: boolean;
+  dryRun?: boolean;
+  concurrency?: number;
+}
+
+export function projectEnsureBranchesCommand(): Command {
+  return new Command('ensure-branches')
+    .description(
+      "Create mapped branches missing in GitLab from the preceding environment's branch",
+    )
+    .argument('[env]', 'Only check this environment')
+    .option('--group <name>', 'Only check the projects of a group')
+    .option('-y, --yes', 'Skip confirmation')
+    .option('--dry-run', 'Only report the missing branches')
+    .option(
+      '--concurrency <n>',
+      'Number of projects processed in parallel',
+      parsePositiveIntOption,
+    )
+    .action(runEnsureBranches);
+}
+
+async function runEnsureBranches(
+  envName: string | undefined,
+  options: EnsureBranchesOptions & { group?: string },
+): Promise<void> {
+  const config = loadConfig();
+
+  if (envName && !getEnvironmentByName(config, envName)) {
+    log(chalk.red(`Environment "${envName}" not found.`));
+    return;
+  }
+
+  let projects: ProjectConfig[];
+  if (options.group) {
+    const group = config.groups[options.group];
+    if (!group) {
+      log(chalk.red(`Group "${options.group}" not found.`));
+      return;
+    }
+    projects = group.projectPaths
+      .map((fp) => config.projects[fp])
+      .filter((p): p is ProjectConfig => p !== undefined);
+  } else {
+    projects = getAllProjects(config);
+  }
+
+  if (projects.length === 0) {
+    log(chalk.yellow('No projects configured.'));
+    return;
+  }
+
+  // In flow order, so a branch is created before the ones created from it
+  const envs = envName
+    ? [envName]
+    : [...config.environments]
+        .sort((a, b) => a.order - b.order)
+        .map((e) => e.name);
+  const targets = projects.flatMap((project) =>
+    envs.map((env) => ({ project, env })),
+  );
+
+  const unmapped = targets.filter((t) => !t.project.branchMap[t.env]);
+  for (const { project, env } of unmapped) {
+    log(chalk.yellow(`⚠ "${project.name}" has no branch mapped for "${env}".`));
+  }
+
+  await ensureBranches(
+    createGitlabClient(),
+    config,
+    targets.filter((t) => t.project.branchMap[t.env]),
+    options,
+  );
+}
+
+// Checks that the mapped branches of `targets` exist and, after
+// confirmation, creates the missing ones. Returns false when the user
+// declined, so callers can stop. Shared with --create-missing-branches.
+export async function ensureBranches(
+  client: GitlabClient,
+  config: HusgitConfig,
+  targets: BranchTarget[],
+  options: EnsureBranchesOptions,
+): Promise<boolean> {
+  const concurrency = getConcurrency(config, options.concurrency);
+
+  const spinner = startSpinner('Checking branches...');
+  const checks = await checkBranches(client, config, targets, {
+    concurrency,
+    onProgress: (done, total) => {
+      spinner.text = `Checking branches... (${done}/${total} done)`;
+    },
+  });
+  spinner.stop();
+
+  for (const check of checks.filter((c) => c.status === 'failed')) {
+    log(
+      chalk.yellow(
+        `⚠ Could not check "${check.branch}" in "${check.project.name}": ${check.error}`,
+      ),
+    );
+  }
+
+  const missing = checks.filter((c) => c.status === 'missing');
+  if (missing.length === 0) {
+    log(chalk.green('All mapped branches exist.'));
+    return true;
+  }
+
+  const table = new Table({
+    head: ['Project', 'Environment', 'Missing branch', 'Created from'],
+    style: { head: ['cyan'] },
+  });
+  for (const check of missing) {
+    table.push([
+      check.project.name,
+      check.env,
+      check.branch,
+      canCreate(check)
+        ? `${check.fromBranch} (${check.fromEnv})`
+        : chalk.red('no preceding environment branch'),
+    ]);
+  }
+  log(
+    chalk.cyan(
+      `\n${missing.length} missing branch${missing.length !== 1 ? 'es' : ''}:`,
+    ),
+  );
+  log(table.toString());
+
+  const creatable = missing.filter(canCreate);
+  if (options.dryRun || creatable.length === 0) {
+    if (options.dryRun) {
+      log(chalk.yellow('\n--dry-run: No branches created.'));
+    }
+    return true;
+  }
+
+  if (!options.yes) {
+    const ok = await promptConfirm(
+      `Create ${creatable.length} branch${creatable.length !== 1 ? 'es' : ''}?`,
+    );
+    if (!ok) {
+      log('Cancelled.');
+      return false;
+    }
+  }
+
+  const createSpinner = startSpinner('Creating branches...');
+  const creations = await createMissingBranches(client, creatable, {
+    concurrency,
+    onProgress: (done, total) => {
+      createSpinner.text = `Creating branches... (${done}/${total} done)`;
+    },
+  });
+  createSpinner.stop();
+
+  for (const { check, status, error } of creations) {
+    log(
+      status === 'created'
+        ? chalk.green(
+            `✓ ${check.project.name}: created ${check.branch} from ${check.fromBranch}`,
+          )
+        : chalk.red(
+            `✗ ${check.project.name}: could not create ${check.branch}: ${error}`,
+          ),
+    );
+  }
+  return true;
+}
@@ -2,6 +2,12 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import Table from 'cli-table3';
 import { loadConfig, getAllProjects } from '../../config/manager.js';
+import {
+  isTableOutput,
+  log,
+  toProjectRecord,
+  writeRecords,
+} from '../../ui/output.js';
 
 export function projectListCommand(): Command {
   return new Command('list')
@@ -13,11 +19,6 @@ async function runProjectList(): Promise<void> {
   const config = loadConfig();
   const projects = getAllProjects(config);
 
-  if (projects.length === 0) {
-    console.log(chalk.yellow('No projects configured.'));
-    return;
-  }
-
   // Build a map of fullPath -> group names
   const projectGroups: Record<string, string[]> = {};
   for (const [groupName, group] of Object.entries(config.groups)) {
@@ -27,6 +28,18 @@ async function runProjectList(): Promise<void> {
     }
   }
 
+  if (!isTableOutput()) {
+    writeRecords(
+      projects.map((p) => toProjectRecord(p, projectGroups[p.fullPath] ?? [])),
+    );
+    return;
+  }
+
+  if (projects.length === 0) {
+    log(chalk.yellow('No projects configured.'));
+    return;
+  }
+
   const envNames = config.environments.map((e) => e.name);
 
   const table = new Table({
@@ -44,5 +57,5 @@ async function runProjectList(): Promise<void> {
     ]);
   }
 
-  console.log(table.toString());
+  log(table.toString());
 }
@@ -6,6 +6,7 @@ import {
   removeProject,
   getAllProjects,
 } from '../../config/manager.js';
+import { log } from '../../ui/output.js';
 import { promptSelect, promptConfirm } from '../../ui/prompts.js';
 
 export function projectRemoveCommand(): Command {
@@ -24,7 +25,7 @@ async function runProjectRemove(
   const projects = getAllProjects(config);
 
   if (projects.length === 0) {
-    console.log(chalk.yellow('No projects configured.'));
+    log(chalk.yellow('No projects configured.'));
     return;
   }
 
@@ -40,7 +41,7 @@ async function runProjectRemove(
 
   const project = config.projects[fullPath];
   if (!project) {
-    console.log(chalk.red(`Project "${fullPath}" not found.`));
+    log(chalk.red(`Project "${fullPath}" not found.`));
     return;
   }
 
@@ -50,7 +51,7 @@ async function runProjectRemove(
       false,
     );
     if (!ok) {
-      console.log('Cancelled.');
+      log('Cancelled.');
       return;
     }
   }
@@ -58,9 +59,9 @@ async function runProjectRemove(
   try {
     removeProject(config, fullPath);
     saveConfig(config);
-    console.log(chalk.green(`Project "${project.name}" removed.`));
+    log(chalk.green(`Project "${project.name}" removed.`));
   } catch (error: unknown) {
-    console.log(
+    log(
       chalk.red(
         error instanceof Error ? error.message : 'Failed to remove project',
       ),
@@ -0,0 +1,440 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { getAllProjects, getEnvironmentByName } from '../config/manager.js';
+import type { GitlabClient } from '../gitlab/client.js';
+import {
+  resolveBranchPairs,
+  compareBranchPairs,
+  executeMergeRequests,
+  isUpToDate,
+  findProtectedSourceBranches,
+  resolveUserIds,
+  type MergeRequestMetadata,
+} from '../services/flowExecution.js';
+import {
+  listRuns,
+  loadRun,
+  recordRun,
+  resolveRunUser,
+  saveRun,
+} from '../services/runJournal.js';
+import {
+  parseBooleanOption,
+  parseListOption,
+  parsePositiveIntOption,
+} from '../ui/options.js';
+import { promptProjectMultiSelect } from '../ui/prompts.js';
+import {
+  printPairsPreview,
+  printResults,
+  writeResultRecords,
+} from '../ui/results.js';
+import { log, startSpinner } from '../ui/output.js';
+import type {
+  BranchPair,
+  Direction,
+  Environment,
+  HusgitConfig,
+  MergeRequestResult,
+  ProjectConfig,
+} from '../types.js';
+import { ensureBranches } from './project/ensureBranches.js';
+
+// Shared by `release` and `backport`: option definitions, project selection
+// and the compare → preview → create step for one pair of environments.
+
+export interface PromotionOptions {
+  group?: string;
+  all?: boolean;
+  projects?: string;
+  title?: string;
+  description?: string;
+  generateDescription?: boolean;
+  assignee?: string[];
+  reviewer?: string[];
+  label?: string[];
+  milestone?: string;
+  dryRun?: boolean;
+  concurrency?: number;
+  autoMerge?: boolean;
+  squash?: boolean;
+  removeSourceBranch?: boolean;
+  retryFailed?: string | boolean;
+  createMissingBranches?: boolean;
+  yes?: boolean;
+}
+
+export interface PromotionContext {
+  config: HusgitConfig;
+  client: GitlabClient;
+  options: PromotionOptions;
+  concurrency: number;
+  metadata: MergeRequestMetadata;
+}
+
+export function addPromotionOptions(cmd: Command): Command {
+  return cmd
+    .option('--group <name>', 'Target a specific group')
+    .option('--all', 'Target all projects')
+    .option('--projects <paths>', 'Comma-separated project fullPaths')
+    .option('--title <title>', 'MR title')
+    .option('--description <desc>', 'MR description')
+    .option(
+      '--generate-description',
+      'List the promoted commits and merged MRs in the MR description',
+    )
+    .option(
+      '--assignee <usernames>',
+      'Assign MRs to GitLab users (comma-separated or repeated)',
+      parseListOption,
+    )
+    .option(
+      '--reviewer <usernames>',
+      'Request review from GitLab users (comma-separated or repeated)',
+      parseListOption,
+    )
+    .option(
+      '--label <labels>',
+      'Add labels to MRs (comma-separated or repeated)',
+      parseListOption,
+    )
+    .option('--milestone <title>', 'Set the milestone on MRs')
+    .option('--dry-run', 'Show what would be created without creating MRs')
+    .option(
+      '--concurrency <n>',
+      'Number of projects processed in parallel',
+      parsePositiveIntOption,
+    )
+    .option(
+      '--auto-merge',
+      'Merge each MR automatically once its pipeline succeeds',
+    )
+    .option(
+      '--no-auto-merge',
+      "Ignore the target environment's auto-merge default",
+    )
+    .option('--squash', 'Squash commits when auto-merging')
+    .option(
+      '--remove-source-branch [bool]',
+      'Delete the source branch after auto-merge (default: false)',
+      parseBooleanOption,
+    )
+    .option(
+      '--retry-failed [run-id]',
+      'Retry only the failed projects of a recorded run (default: the latest)',
+    )
+    .option(
+      '--create-missing-branches',
+      "Create missing target branches from the preceding environment's branch",
+    )
+    .option('-y, --yes', 'Create missing branches without confirmation');
+}
+
+// Returns undefined when the selection is invalid or empty (already reported).
+export async function selectProjects(
+  config: HusgitConfig,
+  options: PromotionOptions,
+  sourceEnv: string,
+): Promise<ProjectConfig[] | undefined> {
+  if (options.all) {
+    return getAllProjects(config);
+  }
+
+  if (options.projects) {
+    const paths = options.projects.split(',').map((p) => p.trim());
+    return paths
+      .map((fp) => config.projects[fp])
+      .filter((p): p is ProjectConfig => p !== undefined);
+  }
+
+  if (options.group) {
+    const group = config.groups[options.group];
+    if (!group) {
+      log(chalk.red(`Group "${options.group}" not found.`));
+      return undefined;
+    }
+    return group.projectPaths
+      .map((fp) => config.projects[fp])
+      .filter((p): p is ProjectConfig => p !== undefined);
+  }
+
+  const selected = await promptProjectMultiSelect(config, sourceEnv);
+  if (selected.length === 0) {
+    log(chalk.yellow('No projects selected.'));
+    return undefined;
+  }
+  return selected;
+}
+
+// Resolves usernames up front so a typo aborts the run before any MR exists.
+export async function resolveMetadata(
+  client: GitlabClient,
+  options: PromotionOptions,
+): Promise<MergeRequestMetadata | undefined> {
+  const metadata: MergeRequestMetadata = {
+    labels: options.label,
+    milestoneTitle: options.milestone,
+  };
+  try {
+    if (options.assignee) {
+      metadata.assigneeIds = await resolveUserIds(client, options.assignee);
+    }
+    if (options.reviewer) {
+      metadata.reviewerIds = await resolveUserIds(client, options.reviewer);
+    }
+  } catch (error: unknown) {
+    log(chalk.red(error instanceof Error ? error.message : String(error)));
+    return undefined;
+  }
+  return metadata;
+}
+
+// Creates (or updates) the MRs from `sourceEnv` to `targetEnv` and records
+// the run. Returns undefined when nothing was executed: a dry run or a
+// refused option.
+export async function runPromotionStep(
+  ctx: PromotionContext,
+  direction: Direction,
+  sourceEnv: string,
+  targetEnv: Environment,
+  projects: ProjectConfig[],
+  title: string,
+): Promise<MergeRequestResult[] | undefined> {
+  const startedAt = new Date();
+  const resolvedPairs = resolveBranchPairs(
+    ctx.config,
+    sourceEnv,
+    direction,
+    projects,
+  );
+
+  if (resolvedPairs.length === 0) {
+    log(chalk.yellow(`No projects to ${direction}.`));
+    return undefined;
+  }
+
+  if (ctx.options.createMissingBranches) {
+    const proceed = await ensureBranches(
+      ctx.client,
+      ctx.config,
+      resolvedPairs.map((p) => ({ project: p.project, env: targetEnv.name })),
+      {
+        dryRun: ctx.options.dryRun,
+        yes: ctx.options.yes,
+        concurrency: ctx.concurrency,
+      },
+    );
+    if (!proceed) return undefined;
+  }
+
+  const results = await promotePairs(
+    ctx,
+    direction,
+    sourceEnv,
+    targetEnv,
+    resolvedPairs,
+    title,
+  );
+  if (!results) return undefined;
+
+  const run = recordRun(
+    {
+      user: await resolveRunUser(ctx.client),
+      direction,
+      mode: 'merge',
+      sourceEnv,
+      targetEnv: targetEnv.name,
+      title,
+      projectPaths: projects.map((p) => p.fullPath),
+      results,
+    },
+    startedAt,
+  );
+  log(chalk.dim(`Run recorded as ${run.id}`));
+
+  return results;
+}
+
+// Re-executes the failed projects of a recorded run (the latest run in
+// `direction` unless `runId` is given) and updates that run's record.
+export async function retryFailedRun(
+  ctx: PromotionContext,
+  direction: Direction,
+  runId?: string,
+): Promise<void> {
+  const { config } = ctx;
+  const run = runId
+    ? loadRun(runId)
+    : listRuns().find((r) => r.direction === direction);
+
+  if (!run) {
+    log(
+      chalk.red(
+        runId ? `Run "${runId}" not found.` : `No ${direction} run recorded.`,
+      ),
+    );
+    return;
+  }
+
+  if (run.direction !== direction) {
+    log(chalk.red(`Run ${run.id} is a ${run.direction}, not a ${direction}.`));
+    return;
+  }
+
+  if (run.mode === 'cherry-pick') {
+    log(
+      chalk.red(
+        `Run ${run.id} was a cherry-pick backport. Cherry-pick the failed projects again with --cherry-pick.`,
+      ),
+    );
+    return;
+  }
+
+  const failed = run.results.filter((r) => r.status === 'failed');
+  if (failed.length === 0) {
+    log(chalk.green(`Run ${run.id} has no failed projects.`));
+    return;
+  }
+
+  const targetEnv = getEnvironmentByName(config, run.targetEnv);
+  if (!getEnvironmentByName(config, run.sourceEnv) || !targetEnv) {
+    log(
+      chalk.red(
+        `Environments "${run.sourceEnv}" → "${run.targetEnv}" of run ${run.id} no longer exist.`,
+      ),
+    );
+    return;
+  }
+
+  // Re-resolve against the current config: branches may have been remapped
+  const pairs: BranchPair[] = [];
+  for (const result of failed) {
+    const project = config.projects[result.project.fullPath];
+    const sourceBranch = project?.branchMap[run.sourceEnv];
+    const targetBranch = project?.branchMap[run.targetEnv];
+    if (!project || !sourceBranch || !targetBranch) {
+      log(
+        chalk.yellow(
+          `Skipping "${result.project.fullPath}": no longer configured for ${run.sourceEnv} → ${run.targetEnv}.`,
+        ),
+      );
+      continue;
+    }
+    pairs.push({ project, sourceBranch, targetBranch });
+  }
+
+  if (pairs.length === 0) {
+    log(chalk.yellow('No failed projects left to retry.'));
+    return;
+  }
+
+  log(
+    chalk.dim(
+      `Retrying ${pairs.length} failed project${pairs.length !== 1 ? 's' : ''} of run ${run.id}`,
+    ),
+  );
+
+  const results = await promotePairs(
+    ctx,
+    direction,
+    run.sourceEnv,
+    targetEnv,
+    pairs,
+    run.title,
+  );
+  if (!results) return;
+
+  const retried = new Map(results.map((r) => [r.project.fullPath, r]));
+  run.results = run.results.map(
+    (r) => (r.status === 'failed' && retried.get(r.project.fullPath)) || r,
+  );
+  run.retriedAt = new Date().toISOString();
+  saveRun(run);
+  log(chalk.dim(`Run ${run.id} updated`));
+  writeResultRecords(results);
+}
+
+async function promotePairs(
+  ctx: PromotionContext,
+  direction: Direction,
+  sourceEnv: string,
+  targetEnv: Environment,
+  resolvedPairs: BranchPair[],
+  title: string,
+): Promise<MergeRequestResult[] | undefined> {
+  const { config, client, options, concurrency } = ctx;
+  const label = direction === 'release' ? 'Release' : 'Backport';
+
+  const compareSpinner = startSpinner('Comparing branches...');
+  const pairs = await compareBranchPairs(client, resolvedPairs, {
+    concurrency,
+    onProgress: (done, total) => {
+      compareSpinner.text = `Comparing branches... (${done}/${total} done)`;
+    },
+  });
+  compareSpinner.stop();
+
+  const mrCount = pairs.filter((p) => !isUpToDate(p)).length;
+  log(
+    chalk.cyan(
+      `\n${label}: ${sourceEnv} → ${targetEnv.name} (${mrCount} MR${mrCount !== 1 ? 's' : ''})`,
+    ),
+  );
+
+  printPairsPreview(pairs);
+
+  if (options.dryRun) {
+    log(chalk.yellow('\n--dry-run: No MRs created.'));
+    return undefined;
+  }
+
+  const autoMerge = options.autoMerge ?? targetEnv.autoMerge ?? false;
+  const removeSourceBranch = options.removeSourceBranch ?? false;
+
+  if (autoMerge && removeSourceBranch) {
+    const protectedPairs = findProtectedSourceBranches(config, pairs);
+    if (protectedPairs.length > 0) {
+      const branches = [...new Set(protectedPairs.map((p) => p.sourceBranch))];
+      log(
+        chalk.red(
+          `Refusing to delete environment branch(es): ${branches.join(', ')}. Drop --remove-source-branch.`,
+        ),
+      );
+      return undefined;
+    }
+  }
+
+  if (mrCount === 0) {
+    log(chalk.green(`\nAll projects are up to date. Nothing to ${direction}.`));
+    return pairs.map((pair) => ({
+      project: pair.project,
+      sourceBranch: pair.sourceBranch,
+      targetBranch: pair.targetBranch,
+      status: 'skipped',
+    }));
+  }
+
+  const spinner = startSpinner('Creating merge requests...');
+
+  const results = await executeMergeRequests(
+    client,
+    pairs,
+    title,
+    options.description,
+    {
+      concurrency,
+      onProgress: (done, total) => {
+        spinner.text = `Creating merge requests... (${done}/${total} done)`;
+      },
+      autoMerge: autoMerge
+        ? { squash: options.squash, removeSourceBranch }
+        : undefined,
+      generateDescription: options.generateDescription,
+      metadata: ctx.metadata,
+    },
+  );
+
+  spinner.stop();
+  printResults(results);
+  return results;
+}
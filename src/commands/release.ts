@@ -1,49 +1,88 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
-import Table from 'cli-table3';
 import {
   loadConfig,
-  getAllProjects,
+  getConcurrency,
+  getEnvironmentByName,
+  getEnvironmentPath,
   getNextEnvironment,
 } from '../config/manager.js';
 import { createGitlabClient } from '../gitlab/client.js';
 import {
-  resolveBranchPairs,
-  executeMergeRequests,
-} from '../services/flowExecution.js';
+  waitForMerges,
+  canProceed,
+  type MergeWaitEntry,
+} from '../services/promotion.js';
+import { parsePositiveIntOption } from '../ui/options.js';
+import { promptSelect, promptInput } from '../ui/prompts.js';
+import { log, startSpinner } from '../ui/output.js';
+import { writeResultRecords } from '../ui/results.js';
+import type { Environment, MergeRequestResult } from '../types.js';
 import {
-  promptSelect,
-  promptInput,
-  promptProjectMultiSelect,
-} from '../ui/prompts.js';
-import type { MergeRequestResult, ProjectConfig } from '../types.js';
+  addPromotionOptions,
+  selectProjects,
+  resolveMetadata,
+  runPromotionStep,
+  retryFailedRun,
+  type PromotionOptions,
+} from './promote.js';
+import { runTagStep } from './tag.js';
+import { undoCommand } from './undo.js';
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 30;
+
+interface ReleaseOptions extends PromotionOptions {
+  to?: string;
+  stopOnFailedPipeline?: boolean;
+  pollInterval?: number;
+  tag?: boolean;
+}
 
 export function releaseCommand(): Command {
-  return new Command('release')
-    .description('Create merge requests to promote to the next environment')
-    .argument('[source-env]', 'Source environment name')
-    .option('--group <name>', 'Target a specific group')
-    .option('--all', 'Target all projects')
-    .option('--projects <paths>', 'Comma-separated project fullPaths')
-    .option('--title <title>', 'MR title')
-    .option('--description <desc>', 'MR description')
-    .option('--dry-run', 'Show what would be created without creating MRs')
+  return addPromotionOptions(
+    new Command('release')
+      .description('Create merge requests to promote to the next environment')
+      .argument('[source-env]', 'Source environment name'),
+  )
+    .option(
+      '--to <env>',
+      'Promote through every environment up to this one, waiting for each hop to be merged',
+    )
+    .option(
+      '--stop-on-failed-pipeline',
+      'Abort a multi-hop release as soon as an MR pipeline fails',
+    )
+    .option(
+      '--poll-interval <seconds>',
+      `Seconds between merge checks with --to or --tag (default: ${DEFAULT_POLL_INTERVAL_SECONDS})`,
+      parsePositiveIntOption,
+    )
+    .option(
+      '--tag',
+      'Once the MRs into the last environment are merged, tag it (see `husgit tag`)',
+    )
+    .addCommand(undoCommand('release'))
     .action(runRelease);
 }
 
 async function runRelease(
   sourceEnvArg: string | undefined,
-  options: {
-    group?: string;
-    all?: boolean;
-    projects?: string;
-    title?: string;
-    description?: string;
-    dryRun?: boolean;
-  },
+  options: ReleaseOptions,
 ): Promise<void> {
   const config = loadConfig();
+  const concurrency = getConcurrency(config, options.concurrency);
+
+  if (options.retryFailed) {
+    const client = createGitlabClient();
+    const metadata = await resolveMetadata(client, options);
+    if (!metadata) return;
+    await retryFailedRun(
+      { config, client, options, concurrency, metadata },
+      'release',
+      typeof options.retryFailed === 'string' ? options.retryFailed : undefined,
+    );
+    return;
+  }
 
   // Resolve source environment
   let sourceEnv: string;
@@ -54,7 +93,7 @@ async function runRelease(
       (_e, i) => i < config.environments.length - 1,
     );
     if (releasableEnvs.length === 0) {
-      console.log(chalk.red('Not enough environments to release.'));
+      log(chalk.red('Not enough environments to release.'));
       return;
     }
     sourceEnv = await promptSelect<string>(
@@ -65,121 +104,171 @@ async function runRelease(
 
   const targetEnv = getNextEnvironment(config, sourceEnv);
   if (!targetEnv) {
-    console.log(
-      chalk.red(`No next environment after "${sourceEnv}". Cannot release.`),
-    );
+    log(chalk.red(`No next environment after "${sourceEnv}". Cannot release.`));
     return;
   }
 
-  // Resolve projects
-  let selectedProjects: ProjectConfig[];
-
-  if (options.all) {
-    selectedProjects = getAllProjects(config);
-  } else if (options.projects) {
-    const paths = options.projects.split(',').map((p) => p.trim());
-    selectedProjects = paths
-      .map((fp) => config.projects[fp])
-      .filter((p): p is ProjectConfig => p !== undefined);
-  } else if (options.group) {
-    const group = config.groups[options.group];
-    if (!group) {
-      console.log(chalk.red(`Group "${options.group}" not found.`));
-      return;
-    }
-    selectedProjects = group.projectPaths
-      .map((fp) => config.projects[fp])
-      .filter((p): p is ProjectConfig => p !== undefined);
-  } else {
-    selectedProjects = await promptProjectMultiSelect(config, sourceEnv);
-    if (selectedProjects.length === 0) {
-      console.log(chalk.yellow('No projects selected.'));
+  // Resolve the chain of environments to walk through
+  let path: Environment[] = [
+    getEnvironmentByName(config, sourceEnv)!,
+    targetEnv,
+  ];
+  if (options.to) {
+    const requested = getEnvironmentPath(config, sourceEnv, options.to);
+    if (
+      !requested ||
+      requested.length < 2 ||
+      requested[1].name !== targetEnv.name
+    ) {
+      log(
+        chalk.red(
+          `"${options.to}" is not an environment after "${sourceEnv}". Cannot release.`,
+        ),
+      );
       return;
     }
+    path = requested;
+  }
+  const hopCount = path.length - 1;
+  const finalEnv = path[hopCount];
+
+  if (options.tag && getNextEnvironment(config, finalEnv.name)) {
+    log(
+      chalk.red(
+        `--tag only applies when releasing into the last environment, not "${finalEnv.name}".`,
+      ),
+    );
+    return;
   }
 
+  let projects = await selectProjects(config, options, sourceEnv);
+  if (!projects) return;
+
+  // A multi-hop release titles each hop after its environments unless a
+  // title is given explicitly
   let title = options.title;
-  if (!title) {
+  if (!title && hopCount === 1) {
     title = await promptInput(
       'MR title:',
       `Release ${sourceEnv} → ${targetEnv.name}`,
     );
   }
 
-  const pairs = resolveBranchPairs(
-    config,
-    sourceEnv,
-    'release',
-    selectedProjects,
-  );
-
-  if (pairs.length === 0) {
-    console.log(chalk.yellow('No projects to release.'));
-    return;
-  }
+  const client = createGitlabClient();
+  const metadata = await resolveMetadata(client, options);
+  if (!metadata) return;
 
-  console.log(
-    chalk.cyan(
-      `\nRelease: ${sourceEnv} → ${targetEnv.name} (${pairs.length} MR${pairs.length !== 1 ? 's' : ''})`,
-    ),
-  );
+  const ctx = { config, client, options, concurrency, metadata };
+  const allResults: MergeRequestResult[] = [];
 
-  const previewTable = new Table({
-    head: ['Project', 'Source Branch', 'Target Branch'],
-    style: { head: ['cyan'] },
-  });
-  for (const pair of pairs) {
-    previewTable.push([
-      pair.project.name,
-      pair.sourceBranch,
-      pair.targetBranch,
-    ]);
-  }
-  console.log(previewTable.toString());
+  for (let hop = 0; hop < hopCount; hop++) {
+    const hopSource = path[hop];
+    const hopTarget = path[hop + 1];
 
-  if (options.dryRun) {
-    console.log(chalk.yellow('\n--dry-run: No MRs created.'));
-    return;
-  }
+    if (hopCount > 1) {
+      log(
+        chalk.bold(
+          `\nHop ${hop + 1}/${hopCount}: ${hopSource.name} → ${hopTarget.name}`,
+        ),
+      );
+    }
 
-  const client = createGitlabClient();
-  const spinner = ora('Creating merge requests...').start();
+    const results = await runPromotionStep(
+      ctx,
+      'release',
+      hopSource.name,
+      hopTarget,
+      projects,
+      title ?? `Release ${hopSource.name} → ${hopTarget.name}`,
+    );
+    if (!results) {
+      if (options.dryRun && hop < hopCount - 1) {
+        log(
+          chalk.yellow(
+            'Later hops depend on these MRs being merged and are not previewed.',
+          ),
+        );
+      }
+      break;
+    }
+    allResults.push(...results);
 
-  const results = await executeMergeRequests(
-    client,
-    pairs,
-    title,
-    options.description,
-  );
+    const isLastHop = hop === hopCount - 1;
+    if (isLastHop && !options.tag) break;
+    const nextStep = isLastHop ? 'tagging' : path[hop + 2].name;
 
-  spinner.stop();
-  printResults(results);
-}
+    const spinner = startSpinner(
+      `Waiting for ${hopSource.name} → ${hopTarget.name} MRs to be merged...`,
+    );
+    const outcome = await waitForMerges(client, results, {
+      intervalMs:
+        (options.pollInterval ?? DEFAULT_POLL_INTERVAL_SECONDS) * 1000,
+      stopOnFailedPipeline: options.stopOnFailedPipeline,
+      concurrency,
+      onUpdate: (entries) => {
+        spinner.text = renderWaitProgress(hopTarget.name, entries);
+      },
+    });
+    spinner.stop();
+    log(renderWaitProgress(hopTarget.name, outcome.entries));
 
-function printResults(results: MergeRequestResult[]): void {
-  const table = new Table({
-    head: ['Project', 'Status', 'URL'],
-    style: { head: ['cyan'] },
-  });
+    if (outcome.stopped) {
+      log(
+        chalk.red(
+          `\nA pipeline failed on the way to ${hopTarget.name}. Stopping before ${nextStep}.`,
+        ),
+      );
+      break;
+    }
 
-  for (const r of results) {
-    const statusText =
-      r.status === 'created'
-        ? chalk.green('Created')
-        : r.status === 'updated'
-          ? chalk.yellow('Updated')
-          : chalk.red(`Failed: ${r.error}`);
+    projects = outcome.entries.filter(canProceed).map((e) => e.result.project);
+    if (projects.length === 0) {
+      log(
+        chalk.yellow(
+          `\nNo project reached ${hopTarget.name}. Stopping before ${nextStep}.`,
+        ),
+      );
+      break;
+    }
 
-    table.push([r.project.name, statusText, r.mrUrl || '-']);
+    if (isLastHop) {
+      await runTagStep(client, config, projects, hopTarget.name, {
+        concurrency,
+      });
+    }
   }
 
-  console.log(table.toString());
-
-  const created = results.filter((r) => r.status === 'created').length;
-  const updated = results.filter((r) => r.status === 'updated').length;
-  const failed = results.filter((r) => r.status === 'failed').length;
+  writeResultRecords(allResults);
+}
 
-  console.log(
-    `\n${chalk.green(`${created} created`)}, ${chalk.yellow(`${updated} updated`)}, ${chalk.red(`${failed} failed`)}`,
-  );
+function renderWaitProgress(
+  envName: string,
+  entries: MergeWaitEntry[],
+): string {
+  const done = entries.filter(
+    (e) => e.state !== 'waiting' && e.state !== 'pipeline-failed',
+  ).length;
+  const lines = entries.map((e) => {
+    const pipeline = e.pipelineStatus
+      ? chalk.dim(` (pipeline ${e.pipelineStatus})`)
+      : '';
+    const stateText =
+      e.state === 'merged'
+        ? chalk.green('merged')
+        : e.state === 'up-to-date'
+          ? chalk.dim('up to date')
+          : e.state === 'waiting'
+            ? chalk.cyan('waiting') + pipeline
+            : e.state === 'pipeline-failed'
+              ? chalk.red('pipeline failed')
+              : e.state === 'closed'
+                ? chalk.yellow('closed')
+                : chalk.red('failed') +
+                  (e.error ? chalk.dim(`: ${e.error}`) : '');
+    return `  ${e.result.project.name}: ${stateText}`;
+  });
+  return [
+    `Waiting for merges into ${envName} (${done}/${entries.length} settled)`,
+    ...lines,
+  ].join('\n');
 }
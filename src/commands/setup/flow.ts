@@ -5,6 +5,7 @@ import {
   saveConfig,
   setEnvironments,
 } from '../../config/manager.js';
+import { log } from '../../ui/output.js';
 import { promptInput, promptConfirm } from '../../ui/prompts.js';
 import type { Environment } from '../../types.js';
 
@@ -18,16 +19,16 @@ export async function runSetupFlow(): Promise<void> {
   const config = loadConfig();
 
   if (config.environments.length > 0) {
-    console.log(chalk.yellow('\nCurrent environments:'));
+    log(chalk.yellow('\nCurrent environments:'));
     for (const env of config.environments) {
-      console.log(`  ${env.order + 1}. ${env.name}`);
+      log(`  ${env.order + 1}. ${env.name}`);
     }
     const overwrite = await promptConfirm(
       'Overwrite existing environments?',
       false,
     );
     if (!overwrite) {
-      console.log('Setup cancelled.');
+      log('Setup cancelled.');
       return;
     }
   }
@@ -35,7 +36,7 @@ export async function runSetupFlow(): Promise<void> {
   const countStr = await promptInput('How many environments?', '3');
   const count = parseInt(countStr, 10);
   if (isNaN(count) || count < 2) {
-    console.log(chalk.red('Need at least 2 environments.'));
+    log(chalk.red('Need at least 2 environments.'));
     return;
   }
 
@@ -53,23 +54,23 @@ export async function runSetupFlow(): Promise<void> {
     environments.push({ name: trimmedName, order: i, defaultBranch });
   }
 
-  console.log(chalk.cyan('\nFlow chain:'));
+  log(chalk.cyan('\nFlow chain:'));
   for (const env of environments) {
     const branchNote = env.defaultBranch
       ? chalk.gray(` (default branch: ${env.defaultBranch})`)
       : '';
-    console.log(`  ${env.order + 1}. ${env.name}${branchNote}`);
+    log(`  ${env.order + 1}. ${env.name}${branchNote}`);
   }
   const chain = environments.map((e) => e.name).join(' → ');
-  console.log(`  ${chain}`);
+  log(`  ${chain}`);
 
   const ok = await promptConfirm('Save this flow?');
   if (!ok) {
-    console.log('Setup cancelled.');
+    log('Setup cancelled.');
     return;
   }
 
   setEnvironments(config, environments);
   saveConfig(config);
-  console.log(chalk.green('Environments saved.'));
+  log(chalk.green('Environments saved.'));
 }
@@ -1,14 +1,32 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
 import Table from 'cli-table3';
 import {
   loadConfig,
   getAllProjects,
   hasEnvironments,
   getEnvironmentByName,
+  getConcurrency,
 } from '../config/manager.js';
-import { createGitlabClient } from '../gitlab/client.js';
+import {
+  createGitlabClient,
+  MAX_PROJECTS_PER_QUERY,
+  type GitlabClient,
+  type OpenMergeRequestData,
+} from '../gitlab/client.js';
+import {
+  mapWithConcurrency,
+  type ProgressCallback,
+} from '../services/concurrency.js';
+import { parseListOption, parsePositiveIntOption } from '../ui/options.js';
+import { formatMergeStatus, formatPipelineStatus } from '../ui/results.js';
+import {
+  isTableOutput,
+  log,
+  startSpinner,
+  toOpenMergeRequestRecord,
+  writeRecords,
+} from '../ui/output.js';
 import type {
   OpenMergeRequest,
   Environment,
@@ -16,6 +34,8 @@ import type {
   ProjectConfig,
 } from '../types.js';
 
+const DEFAULT_WATCH_INTERVAL_SECONDS = 30;
+
 interface EnvPair {
   sourceEnv: Environment;
   targetEnv: Environment;
@@ -63,6 +83,26 @@ export function statusCommand(): Command {
     .option('--group <name>', 'Show only a specific group')
     .option('--type <type>', 'Filter by direction: release or backport')
     .option('--source-env <name>', 'Filter by source environment name')
+    .option(
+      '--pipeline <statuses>',
+      'Show only MRs whose head pipeline has this status, e.g. failed,running',
+      parseListOption,
+    )
+    .option(
+      '--merge-status <statuses>',
+      'Show only MRs with this merge status, e.g. conflict,need_rebase',
+      parseListOption,
+    )
+    .option(
+      '--concurrency <n>',
+      'Number of GitLab queries run in parallel',
+      parsePositiveIntOption,
+    )
+    .option(
+      '--watch [seconds]',
+      `Keep refreshing until every MR is merged or closed (default: every ${DEFAULT_WATCH_INTERVAL_SECONDS}s)`,
+      parsePositiveIntOption,
+    )
     .action(runStatus);
 }
 
@@ -70,11 +110,15 @@ async function runStatus(options: {
   group?: string;
   type?: string;
   sourceEnv?: string;
+  pipeline?: string[];
+  mergeStatus?: string[];
+  concurrency?: number;
+  watch?: number | boolean;
 }): Promise<void> {
   const config = loadConfig();
 
   if (!hasEnvironments(config)) {
-    console.log(
+    log(
       chalk.red('No environments configured. Run "husgit setup flow" first.'),
     );
     return;
@@ -85,7 +129,7 @@ async function runStatus(options: {
     options.type !== 'release' &&
     options.type !== 'backport'
   ) {
-    console.log(
+    log(
       chalk.red(
         `Invalid --type "${options.type}". Must be "release" or "backport".`,
       ),
@@ -94,9 +138,7 @@ async function runStatus(options: {
   }
 
   if (options.sourceEnv && !getEnvironmentByName(config, options.sourceEnv)) {
-    console.log(
-      chalk.red(`Environment "${options.sourceEnv}" not found in config.`),
-    );
+    log(chalk.red(`Environment "${options.sourceEnv}" not found in config.`));
     return;
   }
 
@@ -105,7 +147,7 @@ async function runStatus(options: {
   if (options.group) {
     const group = config.groups[options.group];
     if (!group) {
-      console.log(chalk.yellow(`Group "${options.group}" not found.`));
+      log(chalk.yellow(`Group "${options.group}" not found.`));
       return;
     }
     projectsToQuery = group.projectPaths
@@ -116,7 +158,7 @@ async function runStatus(options: {
   }
 
   if (projectsToQuery.length === 0) {
-    console.log(chalk.yellow('No projects configured.'));
+    log(chalk.yellow('No projects configured.'));
     return;
   }
 
@@ -137,74 +179,324 @@ async function runStatus(options: {
   );
 
   if (envPairs.length === 0) {
-    console.log(chalk.yellow('No environment pairs match the given filters.'));
+    log(chalk.yellow('No environment pairs match the given filters.'));
     return;
   }
 
   const client = createGitlabClient();
-  const spinner = ora('Querying GitLab for open MRs...').start();
 
-  const openMRs: OpenMergeRequest[] = [];
-
-  for (const project of projectsToQuery) {
-    for (const pair of envPairs) {
+  const queries: StatusQuery[] = projectsToQuery.flatMap((project) =>
+    envPairs.flatMap((pair) => {
       const sourceBranch = project.branchMap[pair.sourceEnv.name];
       const targetBranch = project.branchMap[pair.targetEnv.name];
+      if (!sourceBranch || !targetBranch) return [];
+      return [{ project, pair, sourceBranch, targetBranch }];
+    }),
+  );
+
+  const pipelineFilter = options.pipeline?.map((s) => s.toLowerCase());
+  const mergeStatusFilter = options.mergeStatus?.map((s) => s.toLowerCase());
+  const matchesFilters = (mr: OpenMergeRequest): boolean =>
+    (!pipelineFilter || pipelineFilter.includes(mr.pipelineStatus ?? 'none')) &&
+    (!mergeStatusFilter ||
+      mergeStatusFilter.includes(mr.mergeStatus ?? 'unknown'));
+
+  const fetchOpenMRs = (onProgress?: ProgressCallback) =>
+    queryOpenMergeRequests(
+      client,
+      queries,
+      projectGroupsMap,
+      getConcurrency(config, options.concurrency),
+      onProgress,
+    );
 
-      if (!sourceBranch || !targetBranch) continue;
+  if (options.watch) {
+    if (!isTableOutput()) {
+      log(chalk.red('--watch only supports table output.'));
+      return;
+    }
+    const intervalSeconds =
+      typeof options.watch === 'number'
+        ? options.watch
+        : DEFAULT_WATCH_INTERVAL_SECONDS;
+    await watchStatus(client, fetchOpenMRs, matchesFilters, intervalSeconds);
+    return;
+  }
+
+  const spinner = startSpinner('Querying GitLab for open MRs...');
+  const { mrs, warnings } = await fetchOpenMRs((done, total) => {
+    spinner.text = `Querying GitLab for open MRs... (${done}/${total} done)`;
+  });
+  spinner.stop();
 
+  for (const warning of warnings) {
+    log(chalk.yellow(`⚠ ${warning}`));
+  }
+
+  const openMRs = mrs.filter(matchesFilters);
+  if (!isTableOutput()) {
+    writeRecords(openMRs.map(toOpenMergeRequestRecord));
+    return;
+  }
+
+  if (openMRs.length === 0) {
+    log(chalk.green('\nNo open merge requests matching the filters.'));
+    return;
+  }
+
+  log(`\n${chalk.cyan(`${openMRs.length} open MR(s):`)}`);
+  log(renderStatusTable(openMRs));
+}
+
+interface StatusQuery {
+  project: ProjectConfig;
+  pair: EnvPair;
+  sourceBranch: string;
+  targetBranch: string;
+}
+
+// Fetches the open MRs of all queried pairs with one GraphQL request per
+// MAX_PROJECTS_PER_QUERY projects, then maps them back to their env pairs.
+async function queryOpenMergeRequests(
+  client: GitlabClient,
+  queries: StatusQuery[],
+  projectGroupsMap: Map<string, string[]>,
+  concurrency: number,
+  onProgress?: ProgressCallback,
+): Promise<{ mrs: OpenMergeRequest[]; warnings: string[] }> {
+  const warnings: string[] = [];
+
+  const queriesByProject = new Map<string, StatusQuery[]>();
+  for (const query of queries) {
+    const fullPath = query.project.fullPath;
+    queriesByProject.set(fullPath, [
+      ...(queriesByProject.get(fullPath) ?? []),
+      query,
+    ]);
+  }
+
+  const projectPaths = Array.from(queriesByProject.keys());
+  const chunks: string[][] = [];
+  for (let i = 0; i < projectPaths.length; i += MAX_PROJECTS_PER_QUERY) {
+    chunks.push(projectPaths.slice(i, i + MAX_PROJECTS_PER_QUERY));
+  }
+
+  const chunkResults = await mapWithConcurrency(
+    chunks,
+    concurrency,
+    async (fullPaths) => {
+      const chunkQueries = fullPaths.flatMap(
+        (fp) => queriesByProject.get(fp) ?? [],
+      );
+
+      let mrsByProject: Map<string, OpenMergeRequestData[]>;
       try {
-        const mrs = await client.getOpenMergeRequests(
-          project.fullPath,
-          sourceBranch,
-          targetBranch,
+        mrsByProject = await client.getOpenMergeRequestsForProjects(
+          fullPaths,
+          [...new Set(chunkQueries.map((q) => q.sourceBranch))],
+          [...new Set(chunkQueries.map((q) => q.targetBranch))],
+        );
+      } catch (err) {
+        const names = fullPaths.map(
+          (fp) => queriesByProject.get(fp)![0].project.name,
         );
+        warnings.push(
+          `Could not query ${names.map((n) => `"${n}"`).join(', ')}: ${err instanceof Error ? err.message : String(err)}`,
+        );
+        return [];
+      }
+
+      return chunkQueries.flatMap(
+        ({ project, pair, sourceBranch, targetBranch }) => {
+          const projectMRs = mrsByProject.get(project.fullPath);
+          if (!projectMRs) {
+            // Report each missing project once, on its first pair
+            if (queriesByProject.get(project.fullPath)![0].pair === pair) {
+              warnings.push(
+                `Could not query "${project.name}": project not found or not accessible`,
+              );
+            }
+            return [];
+          }
+
+          return projectMRs
+            .filter(
+              (mr) =>
+                mr.sourceBranch === sourceBranch &&
+                mr.targetBranch === targetBranch,
+            )
+            .map(
+              (mr): OpenMergeRequest => ({
+                project,
+                groups: projectGroupsMap.get(project.fullPath) ?? [],
+                sourceEnv: pair.sourceEnv.name,
+                targetEnv: pair.targetEnv.name,
+                sourceBranch,
+                targetBranch,
+                direction: pair.direction,
+                mrId: mr.iid,
+                mrUrl: mr.webUrl,
+                state: mr.state,
+                pipelineStatus: mr.pipelineStatus,
+                mergeStatus: mr.mergeStatus,
+                approvals: mr.approvals,
+              }),
+            );
+        },
+      );
+    },
+    onProgress,
+  );
+
+  return { mrs: chunkResults.flat(), warnings };
+}
+
+function mrKey(mr: OpenMergeRequest): string {
+  return `${mr.project.fullPath}!${mr.mrId}`;
+}
+
+function isSettled(mr: OpenMergeRequest): boolean {
+  return mr.state === 'merged' || mr.state === 'closed';
+}
+
+// Consecutive failed lookups after which a watched MR is given up on
+const MAX_REFRESH_FAILURES = 3;
+
+// Redraws the table every `intervalSeconds` until every watched MR is merged,
+// closed or given up on. MRs drop out of the open-MR query once they settle,
+// so their final state is looked up individually.
+async function watchStatus(
+  client: GitlabClient,
+  fetchOpenMRs: () => Promise<{ mrs: OpenMergeRequest[]; warnings: string[] }>,
+  matchesFilters: (mr: OpenMergeRequest) => boolean,
+  intervalSeconds: number,
+): Promise<void> {
+  const watched = new Map<string, OpenMergeRequest>();
+  const refreshFailures = new Map<string, number>();
+  const givenUp = (mr: OpenMergeRequest) =>
+    (refreshFailures.get(mrKey(mr)) ?? 0) >= MAX_REFRESH_FAILURES;
+
+  for (;;) {
+    const { mrs, warnings } = await fetchOpenMRs();
+    const open = new Map(mrs.map((mr) => [mrKey(mr), mr]));
+    const changed = new Set<string>();
+
+    for (const mr of mrs) {
+      const key = mrKey(mr);
+      const previous = watched.get(key);
+      refreshFailures.delete(key);
+      if (previous) {
+        if (rowSignature(previous) !== rowSignature(mr)) changed.add(key);
+        watched.set(key, mr);
+      } else if (matchesFilters(mr)) {
+        watched.set(key, mr);
+      }
+    }
 
-        for (const mr of mrs) {
-          openMRs.push({
-            project,
-            groups: projectGroupsMap.get(project.fullPath) ?? [],
-            sourceEnv: pair.sourceEnv.name,
-            targetEnv: pair.targetEnv.name,
-            sourceBranch,
-            targetBranch,
-            direction: pair.direction,
-            mrId: mr.iid,
-            mrUrl: mr.webUrl,
-            state: mr.state,
-          });
-        }
+    for (const [key, mr] of watched) {
+      if (open.has(key) || isSettled(mr) || givenUp(mr)) continue;
+      try {
+        const current = await client.getMergeRequest(
+          mr.project.externalId,
+          mr.mrId!,
+        );
+        watched.set(key, {
+          ...mr,
+          state: current.state,
+          pipelineStatus: current.pipelineStatus,
+        });
+        refreshFailures.delete(key);
+        changed.add(key);
       } catch (err) {
-        spinner.warn(
-          `Could not query "${project.name}": ${err instanceof Error ? err.message : String(err)}`,
+        const failures = (refreshFailures.get(key) ?? 0) + 1;
+        refreshFailures.set(key, failures);
+        warnings.push(
+          `Could not refresh "${mr.project.name}" (attempt ${failures}/${MAX_REFRESH_FAILURES}): ${err instanceof Error ? err.message : String(err)}`,
         );
       }
     }
-  }
 
-  spinner.stop();
+    const rows = Array.from(watched.values());
+    // Only clear a terminal that shows the table; piped output keeps every frame
+    if (isTableOutput() && process.stdout.isTTY) console.clear();
+    log(
+      chalk.cyan(
+        `Watching ${rows.length} MR(s) — refreshed ${new Date().toLocaleTimeString()}, every ${intervalSeconds}s (Ctrl+C to stop)`,
+      ),
+    );
+    for (const warning of warnings) {
+      log(chalk.yellow(`⚠ ${warning}`));
+    }
 
-  if (openMRs.length === 0) {
-    console.log(chalk.green('\nNo open merge requests matching the filters.'));
-    return;
+    if (rows.length === 0) {
+      log(chalk.green('\nNo open merge requests matching the filters.'));
+      return;
+    }
+
+    log(renderStatusTable(rows, (mr) => changed.has(mrKey(mr))));
+
+    if (rows.every((mr) => isSettled(mr) || givenUp(mr))) {
+      const lost = rows.filter(givenUp);
+      if (lost.length === 0) {
+        log(chalk.green('\nAll watched MRs are merged or closed.'));
+        return;
+      }
+      log(
+        chalk.red(
+          `\nGave up on ${lost.length} MR(s) that could not be refreshed: ${lost.map((mr) => mr.project.name).join(', ')}`,
+        ),
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalSeconds * 1000));
   }
+}
 
+function rowSignature(mr: OpenMergeRequest): string {
+  return [mr.state, mr.pipelineStatus, mr.mergeStatus, mr.approvals].join('|');
+}
+
+function renderStatusTable(
+  mrs: OpenMergeRequest[],
+  isChanged: (mr: OpenMergeRequest) => boolean = () => false,
+): string {
   const table = new Table({
-    head: ['Groups', 'Project', 'Direction', 'Environments', 'State', 'URL'],
+    head: [
+      'Groups',
+      'Project',
+      'Direction',
+      'Environments',
+      'State',
+      'Pipeline',
+      'Merge status',
+      'Approvals',
+      'URL',
+    ],
     style: { head: ['cyan'] },
   });
 
-  for (const mr of openMRs) {
+  for (const mr of mrs) {
+    const changed = isChanged(mr);
     table.push([
       mr.groups.join(', ') || chalk.dim('ungrouped'),
-      mr.project.name,
+      changed ? chalk.bold.yellow(`● ${mr.project.name}`) : mr.project.name,
       mr.direction,
       `${mr.sourceEnv} → ${mr.targetEnv}`,
-      mr.state || '-',
+      formatState(mr.state),
+      formatPipelineStatus(mr.pipelineStatus),
+      formatMergeStatus(mr.mergeStatus),
+      String(mr.approvals ?? 0),
       mr.mrUrl || '-',
     ]);
   }
 
-  console.log(`\n${chalk.cyan(`${openMRs.length} open MR(s):`)}`);
-  console.log(table.toString());
+  return table.toString();
+}
+
+function formatState(state: string | undefined): string {
+  if (state === 'merged') return chalk.green(state);
+  if (state === 'closed') return chalk.dim(state);
+  return state || '-';
 }
@@ -0,0 +1,164 @@
+import { Command, InvalidArgumentError } from 'commander';
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import {
+  loadConfig,
+  getConcurrency,
+  getEnvironmentByName,
+} from '../config/manager.js';
+import { createGitlabClient, type GitlabClient } from '../gitlab/client.js';
+import {
+  createTags,
+  planTags,
+  DEFAULT_TAG_TEMPLATE,
+  type SemverBump,
+  type TagPlan,
+} from '../services/tagging.js';
+import { parsePositiveIntOption } from '../ui/options.js';
+import { log, startSpinner } from '../ui/output.js';
+import { printTagResults } from '../ui/results.js';
+import type { HusgitConfig, ProjectConfig } from '../types.js';
+import { selectProjects } from './promote.js';
+
+export interface TagStepOptions {
+  template?: string;
+  bump?: SemverBump;
+  dryRun?: boolean;
+  concurrency?: number;
+}
+
+interface TagCommandOptions extends TagStepOptions {
+  group?: string;
+  all?: boolean;
+  projects?: string;
+}
+
+function parseBump(value: string): SemverBump {
+  if (value !== 'major' && value !== 'minor' && value !== 'patch') {
+    throw new InvalidArgumentError('Must be one of: major, minor, patch.');
+  }
+  return value;
+}
+
+export function tagCommand(): Command {
+  return new Command('tag')
+    .description(
+      'Tag the environment branch of each project and create a GitLab Release',
+    )
+    .argument('<env>', 'Environment whose branch heads are tagged')
+    .option('--group <name>', 'Target a specific group')
+    .option('--all', 'Target all projects')
+    .option('--projects <paths>', 'Comma-separated project fullPaths')
+    .option(
+      '--template <template>',
+      `Tag name template (default: config "tagTemplate" or ${DEFAULT_TAG_TEMPLATE})`,
+    )
+    .option(
+      '--bump <part>',
+      'Semver part to increment for {semver}: major, minor or patch (default: patch)',
+      parseBump,
+    )
+    .option('--dry-run', 'Show the tags that would be created')
+    .option(
+      '--concurrency <n>',
+      'Number of projects processed in parallel',
+      parsePositiveIntOption,
+    )
+    .action(runTag);
+}
+
+async function runTag(env: string, options: TagCommandOptions): Promise<void> {
+  const config = loadConfig();
+
+  if (!getEnvironmentByName(config, env)) {
+    log(chalk.red(`Environment "${env}" not found.`));
+    return;
+  }
+
+  const projects = await selectProjects(config, options, env);
+  if (!projects) return;
+
+  await runTagStep(createGitlabClient(), config, projects, env, options);
+}
+
+// Plans, previews and creates the tags of `env` for `projects`. Shared with
+// `release --tag`.
+export async function runTagStep(
+  client: GitlabClient,
+  config: HusgitConfig,
+  projects: ProjectConfig[],
+  env: string,
+  options: TagStepOptions,
+): Promise<void> {
+  const concurrency = getConcurrency(config, options.concurrency);
+  const template =
+    options.template ?? config.tagTemplate ?? DEFAULT_TAG_TEMPLATE;
+
+  const mapped = projects.filter((p) => p.branchMap[env]);
+  for (const project of projects) {
+    if (!project.branchMap[env]) {
+      log(
+        chalk.dim(`Skipping "${project.name}": no branch mapped for "${env}".`),
+      );
+    }
+  }
+  if (mapped.length === 0) {
+    log(chalk.yellow('No projects to tag.'));
+    return;
+  }
+
+  const planSpinner = startSpinner('Resolving tag names...');
+  const plans = await planTags(client, mapped, {
+    env,
+    template,
+    bump: options.bump,
+    concurrency,
+    onProgress: (done, total) => {
+      planSpinner.text = `Resolving tag names... (${done}/${total} done)`;
+    },
+  });
+  planSpinner.stop();
+
+  log(chalk.cyan(`\nTag ${env} (${template})`));
+  printTagPlans(plans);
+
+  if (options.dryRun) {
+    log(chalk.yellow('\n--dry-run: No tags created.'));
+    return;
+  }
+
+  const spinner = startSpinner('Creating tags and releases...');
+  const results = await createTags(client, plans, {
+    concurrency,
+    onProgress: (done, total) => {
+      spinner.text = `Creating tags and releases... (${done}/${total} done)`;
+    },
+  });
+  spinner.stop();
+
+  printTagResults(results);
+}
+
+function printTagPlans(plans: TagPlan[]): void {
+  const table = new Table({
+    head: ['Project', 'Branch', 'Tag', 'Previous tag'],
+    style: { head: ['cyan'] },
+  });
+
+  for (const plan of plans) {
+    table.push([
+      plan.project.name,
+      plan.branch,
+      plan.error
+        ? chalk.red(`Failed: ${plan.error}`)
+        : plan.exists
+          ? chalk.yellow(
+              `${plan.tagName} (exists${plan.releaseMissing ? ', release missing' : ''})`,
+            )
+          : chalk.green(plan.tagName),
+      plan.previousTag ?? chalk.dim('-'),
+    ]);
+  }
+
+  log(table.toString());
+}
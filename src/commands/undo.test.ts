@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RunRecord } from '../types.js';
+import { createProgram } from '../cli.js';
+import { listRuns, saveRun } from '../services/runJournal.js';
+import { undoRun, type UndoOutcome } from '../services/undo.js';
+import { promptConfirm } from '../ui/prompts.js';
+
+const run = {
+  id: 'run-1',
+  direction: 'release',
+  title: 'Sprint 42',
+  results: [],
+} as unknown as RunRecord;
+
+vi.mock('../config/manager.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../config/manager.js')>()),
+  loadConfig: vi.fn(() => ({ environments: [], groups: {}, projects: {} })),
+}));
+vi.mock('../gitlab/client.js', () => ({ createGitlabClient: vi.fn() }));
+vi.mock('../services/runJournal.js', () => ({
+  listRuns: vi.fn(() => [
+    { ...run },
+    { ...run, id: 'run-0', direction: 'backport' },
+  ]),
+  loadRun: vi.fn(),
+  saveRun: vi.fn(),
+}));
+vi.mock('../services/undo.js', () => ({
+  getUndoableResults: vi.fn(() => [{ status: 'created' }]),
+  undoRun: vi.fn(async () => []),
+}));
+vi.mock('../ui/prompts.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../ui/prompts.js')>()),
+  promptConfirm: vi.fn(async () => true),
+}));
+vi.mock('../ui/results.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../ui/results.js')>()),
+  printUndoResults: vi.fn(),
+}));
+
+function husgit(...args: string[]): Promise<unknown> {
+  return createProgram().parseAsync(args, { from: 'user' });
+}
+
+describe('release/backport undo', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.exitCode = undefined;
+  });
+
+  it.each(['release', 'backport'])(
+    'passes the --concurrency given after %s undo to the undo service',
+    async (direction) => {
+      await husgit(direction, 'undo', '--concurrency', '2');
+
+      expect(undoRun).toHaveBeenCalledWith(
+        undefined,
+        expect.objectContaining({ direction }),
+        expect.objectContaining({ concurrency: 2 }),
+      );
+    },
+  );
+
+  it.each(['release', 'backport'])(
+    'does not ask for confirmation with %s undo --yes',
+    async (direction) => {
+      await husgit(direction, 'undo', '--yes');
+
+      expect(promptConfirm).not.toHaveBeenCalled();
+      expect(undoRun).toHaveBeenCalled();
+    },
+  );
+
+  it('asks for confirmation without --yes', async () => {
+    await husgit('release', 'undo');
+
+    expect(promptConfirm).toHaveBeenCalled();
+  });
+
+  it('marks the run undone when every MR was undone', async () => {
+    await husgit('release', 'undo', '--yes');
+
+    expect(saveRun).toHaveBeenCalledWith(
+      expect.objectContaining({ undoneAt: expect.any(String) }),
+    );
+  });
+
+  it('records the MRs that could not be undone for a retry', async () => {
+    vi.mocked(undoRun).mockResolvedValueOnce([
+      { result: { project: { fullPath: 'acme/api' } }, action: 'failed' },
+      { result: { project: { fullPath: 'acme/web' } }, action: 'closed' },
+    ] as UndoOutcome[]);
+
+    await husgit('release', 'undo', '--yes');
+
+    const saved = vi.mocked(saveRun).mock.calls[0][0];
+    expect(saved.undoneAt).toBeUndefined();
+    expect(saved.undoFailures).toEqual(['acme/api']);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it('retries a partly undone run but not an undone one', async () => {
+    vi.mocked(listRuns).mockReturnValueOnce([
+      { ...run, undoFailures: ['acme/api'] },
+    ]);
+    await husgit('release', 'undo', '--yes');
+    expect(undoRun).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(saveRun).mock.calls[0][0].undoFailures).toBeUndefined();
+
+    vi.mocked(listRuns).mockReturnValueOnce([
+      { ...run, undoneAt: '2026-10-19T12:00:00.000Z' },
+    ]);
+    await husgit('release', 'undo', '--yes');
+    expect(undoRun).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,131 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { loadConfig, getConcurrency } from '../config/manager.js';
+import { createGitlabClient } from '../gitlab/client.js';
+import { listRuns, loadRun, saveRun } from '../services/runJournal.js';
+import { getUndoableResults, undoRun } from '../services/undo.js';
+import { parsePositiveIntOption } from '../ui/options.js';
+import { log, startSpinner } from '../ui/output.js';
+import { promptConfirm } from '../ui/prompts.js';
+import { printUndoResults } from '../ui/results.js';
+import type { Direction } from '../types.js';
+
+interface UndoCommandOptions {
+  includeUpdated?: boolean;
+  yes?: boolean;
+  concurrency?: number;
+}
+
+// `release undo` / `backport undo`
+export function undoCommand(direction: Direction): Command {
+  return (
+    new Command('undo')
+      .description(
+        `Close the MRs a ${direction} run created and restore titles it changed`,
+      )
+      .argument('[run-id]', `Run to undo (default: the latest ${direction})`)
+      .option(
+        '--include-updated',
+        'Also close MRs the run only updated (instead of restoring their title)',
+      )
+      .option('-y, --yes', 'Skip confirmation')
+      .option(
+        '--concurrency <n>',
+        'Number of MRs processed in parallel',
+        parsePositiveIntOption,
+      )
+      // release/backport define --yes and --concurrency too, and commander
+      // gives those to the parent even when they come after `undo`
+      .action(
+        (runId: string | undefined, _options: unknown, command: Command) =>
+          runUndo(
+            direction,
+            runId,
+            command.optsWithGlobals<UndoCommandOptions>(),
+          ),
+      )
+  );
+}
+
+async function runUndo(
+  direction: Direction,
+  runId: string | undefined,
+  options: UndoCommandOptions,
+): Promise<void> {
+  const config = loadConfig();
+  const run = runId
+    ? loadRun(runId)
+    : listRuns().find((r) => r.direction === direction);
+
+  if (!run) {
+    log(
+      chalk.red(
+        runId ? `Run "${runId}" not found.` : `No ${direction} run recorded.`,
+      ),
+    );
+    return;
+  }
+
+  if (run.direction !== direction) {
+    log(chalk.red(`Run ${run.id} is a ${run.direction}, not a ${direction}.`));
+    return;
+  }
+
+  if (run.undoneAt) {
+    log(chalk.yellow(`Run ${run.id} was already undone.`));
+    return;
+  }
+
+  const undoable = getUndoableResults(run);
+  if (undoable.length === 0) {
+    log(chalk.yellow(`Run ${run.id} did not create or update any MR.`));
+    return;
+  }
+
+  const created = undoable.filter((r) => r.status === 'created').length;
+  const updated = undoable.length - created;
+
+  if (!options.yes) {
+    const updatedText =
+      updated === 0
+        ? ''
+        : options.includeUpdated
+          ? ` and close ${updated} updated MR${updated !== 1 ? 's' : ''}`
+          : ` and restore titles of ${updated} updated MR${updated !== 1 ? 's' : ''}`;
+    const ok = await promptConfirm(
+      `${run.undoFailures ? 'Retry undoing' : 'Undo'} run ${run.id} "${run.title}": close ${created} created MR${created !== 1 ? 's' : ''}${updatedText}?`,
+      false,
+    );
+    if (!ok) {
+      log('Cancelled.');
+      return;
+    }
+  }
+
+  const client = createGitlabClient();
+  const spinner = startSpinner('Undoing...');
+  const outcomes = await undoRun(client, run, {
+    includeUpdated: options.includeUpdated,
+    concurrency: getConcurrency(config, options.concurrency),
+  });
+  spinner.stop();
+
+  printUndoResults(outcomes);
+
+  const failed = outcomes
+    .filter((o) => o.action === 'failed')
+    .map((o) => o.result.project.fullPath);
+  if (failed.length === 0) {
+    run.undoneAt = new Date().toISOString();
+    delete run.undoFailures;
+  } else {
+    run.undoFailures = failed;
+    log(
+      chalk.yellow(
+        `\n${failed.length} MR${failed.length !== 1 ? 's' : ''} could not be undone. Retry with: husgit ${direction} undo ${run.id}`,
+      ),
+    );
+    process.exitCode = 1;
+  }
+  saveRun(run);
+}
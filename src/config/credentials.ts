@@ -0,0 +1,169 @@
+import {
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  existsSync,
+  renameSync,
+  rmSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { homedir } from 'node:os';
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from 'node:crypto';
+
+const CONFIG_DIR = join(homedir(), '.husgit');
+const CREDENTIALS_PATH = join(CONFIG_DIR, 'credentials.json');
+
+export const PASSPHRASE_ENV = 'HUSGIT_PASSPHRASE';
+
+// AES-256-GCM with a scrypt-derived key; all fields base64
+interface EncryptedToken {
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface StoredCredential {
+  token?: string;
+  encrypted?: EncryptedToken;
+  user: string;
+  savedAt: string;
+}
+
+// Keyed by GitLab host, e.g. "gitlab.com"
+type CredentialStore = Record<string, StoredCredential>;
+
+export interface CredentialInfo {
+  host: string;
+  user: string;
+  savedAt: string;
+  encrypted: boolean;
+}
+
+export function getCredentialsPath(): string {
+  return CREDENTIALS_PATH;
+}
+
+export function getHost(gitlabUrl: string): string {
+  return new URL(gitlabUrl).host;
+}
+
+function readStore(): CredentialStore {
+  if (!existsSync(CREDENTIALS_PATH)) return {};
+  return JSON.parse(readFileSync(CREDENTIALS_PATH, 'utf-8')) as CredentialStore;
+}
+
+function writeStore(store: CredentialStore): void {
+  mkdirSync(CONFIG_DIR, { recursive: true });
+  // `mode` only applies when a file is created, so the tokens go to a new
+  // private file that then replaces the store
+  const tmpPath = `${CREDENTIALS_PATH}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tmpPath, JSON.stringify(store, null, 2) + '\n', {
+      encoding: 'utf-8',
+      mode: 0o600,
+      flag: 'wx',
+    });
+    renameSync(tmpPath, CREDENTIALS_PATH);
+  } catch (error: unknown) {
+    rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+function encrypt(token: string, passphrase: string): EncryptedToken {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(token, 'utf-8'), cipher.final()]);
+  return {
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decrypt(encrypted: EncryptedToken, passphrase: string): string {
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(passphrase, Buffer.from(encrypted.salt, 'base64')),
+    Buffer.from(encrypted.iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+  } catch {
+    throw new Error('Wrong passphrase for the stored GitLab token');
+  }
+}
+
+export function saveCredential(
+  gitlabUrl: string,
+  token: string,
+  options: { user: string; passphrase?: string },
+): void {
+  const store = readStore();
+  store[getHost(gitlabUrl)] = {
+    ...(options.passphrase
+      ? { encrypted: encrypt(token, options.passphrase) }
+      : { token }),
+    user: options.user,
+    savedAt: new Date().toISOString(),
+  };
+  writeStore(store);
+}
+
+// Returns false when nothing was stored for the host
+export function removeCredential(gitlabUrl: string): boolean {
+  const store = readStore();
+  const host = getHost(gitlabUrl);
+  if (!store[host]) return false;
+  delete store[host];
+  writeStore(store);
+  return true;
+}
+
+export function getCredentialInfo(
+  gitlabUrl: string,
+): CredentialInfo | undefined {
+  const host = getHost(gitlabUrl);
+  const stored = readStore()[host];
+  if (!stored) return undefined;
+  return {
+    host,
+    user: stored.user,
+    savedAt: stored.savedAt,
+    encrypted: stored.encrypted !== undefined,
+  };
+}
+
+// Encrypted tokens are decrypted with HUSGIT_PASSPHRASE
+export function loadStoredToken(
+  gitlabUrl: string,
+  passphrase: string | undefined = process.env[PASSPHRASE_ENV],
+): string | undefined {
+  const stored = readStore()[getHost(gitlabUrl)];
+  if (!stored) return undefined;
+  if (stored.token) return stored.token;
+  if (!stored.encrypted) return undefined;
+
+  if (!passphrase) {
+    throw new Error(
+      `The stored token for ${getHost(gitlabUrl)} is encrypted. Set ${PASSPHRASE_ENV} to use it.`,
+    );
+  }
+  return decrypt(stored.encrypted, passphrase);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { mergeLayers, stripLayer, type ConfigLayer } from './layers.js';
+import { validateConfigLayer } from './manager.js';
+import type { HusgitConfig, ProjectConfig } from '../types.js';
+
+function project(fullPath: string, prod = 'main'): ProjectConfig {
+  return {
+    externalId: fullPath.length.toString(),
+    name: fullPath,
+    fullPath,
+    branchMap: { dev: 'develop', prod },
+  };
+}
+
+const global: HusgitConfig = {
+  gitlabUrl: 'https://gitlab.internal',
+  tokenEnv: 'INTERNAL_TOKEN',
+  concurrency: 2,
+  environments: [{ name: 'dev', order: 0 }],
+  groups: { mine: { projectPaths: ['me/tool'] } },
+  projects: { 'me/tool': project('me/tool'), 'acme/api': project('acme/api') },
+};
+
+const layer: ConfigLayer = {
+  environments: [
+    { name: 'dev', order: 0 },
+    { name: 'prod', order: 1 },
+  ],
+  groups: { team: { projectPaths: ['acme/api'] } },
+  projects: { 'acme/api': project('acme/api', 'release') },
+};
+
+describe('mergeLayers', () => {
+  it('replaces environments and merges groups and projects by name', () => {
+    const merged = mergeLayers(global, layer);
+
+    expect(merged.environments).toEqual(layer.environments);
+    expect(Object.keys(merged.groups)).toEqual(['mine', 'team']);
+    expect(merged.projects['me/tool']).toEqual(global.projects['me/tool']);
+    expect(merged.projects['acme/api'].branchMap.prod).toBe('release');
+  });
+
+  it('keeps the host, token and preferences of the user', () => {
+    const merged = mergeLayers(global, layer);
+
+    expect(merged.gitlabUrl).toBe('https://gitlab.internal');
+    expect(merged.tokenEnv).toBe('INTERNAL_TOKEN');
+    expect(merged.concurrency).toBe(2);
+  });
+});
+
+describe('stripLayer', () => {
+  it('does not write repository values into the user config', () => {
+    const merged = mergeLayers(global, layer);
+    merged.groups.extra = { projectPaths: [] };
+
+    const saved = stripLayer(merged, global, layer);
+
+    expect(saved.environments).toEqual(global.environments);
+    expect(saved.groups).toEqual({
+      ...global.groups,
+      extra: { projectPaths: [] },
+    });
+    expect(saved.projects).toEqual(global.projects);
+  });
+
+  it('keeps values the user changed', () => {
+    const merged = mergeLayers(global, layer);
+    merged.projects['acme/api'] = project('acme/api', 'hotfix');
+
+    const saved = stripLayer(merged, global, layer);
+
+    expect(saved.projects['acme/api'].branchMap.prod).toBe('hotfix');
+  });
+});
+
+describe('validateConfigLayer', () => {
+  it('accepts a partial overlay', () => {
+    expect(
+      validateConfigLayer({ projects: { 'acme/api': project('acme/api') } }),
+    ).toEqual({ projects: { 'acme/api': project('acme/api') } });
+  });
+
+  it.each(['gitlabUrl', 'tokenEnv'])('refuses %s', (field) => {
+    expect(() =>
+      validateConfigLayer({ [field]: 'https://evil.example' }),
+    ).toThrow(`Field "${field}" is not allowed in a repository config`);
+  });
+
+  it('refuses fields outside environments, groups and projects', () => {
+    expect(() => validateConfigLayer({ concurrency: 4 })).toThrow(
+      'allowed: environments, groups, projects',
+    );
+  });
+
+  it('still validates the fields it sets', () => {
+    expect(() => validateConfigLayer({ environments: [] })).toThrow(
+      'at least one environment',
+    );
+  });
+});
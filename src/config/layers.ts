@@ -0,0 +1,125 @@
+import { existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
+import type { HusgitConfig } from '../types.js';
+
+// Looked up in each directory from the cwd up to the filesystem root
+export const REPO_CONFIG_FILES = ['.husgitrc.json', 'husgit.config.json'];
+
+// The only fields a repository may set. Anything deciding where the token
+// is sent (gitlabUrl, tokenEnv) must come from the user's own config.
+export const REPO_LAYER_FIELDS = [
+  'environments',
+  'groups',
+  'projects',
+] as const;
+
+// Only the fields the file actually sets
+export type ConfigLayer = Partial<
+  Pick<HusgitConfig, (typeof REPO_LAYER_FIELDS)[number]>
+>;
+
+export interface ConfigSource {
+  // "environments", "groups.<name>", "projects.<fullPath>", ...
+  key: string;
+  value: unknown;
+  // File the value came from, or undefined for built-in defaults
+  path?: string;
+}
+
+// Merged entry by entry; every other field is replaced as a whole
+const KEYED_FIELDS = ['groups', 'projects'] as const;
+
+type KeyedField = (typeof KEYED_FIELDS)[number];
+
+function isKeyed(key: string): key is KeyedField {
+  return (KEYED_FIELDS as readonly string[]).includes(key);
+}
+
+export function findRepoConfig(
+  cwd: string = process.cwd(),
+): string | undefined {
+  let dir = cwd;
+  while (true) {
+    for (const name of REPO_CONFIG_FILES) {
+      const path = join(dir, name);
+      if (existsSync(path)) return path;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+export function mergeLayers(
+  base: HusgitConfig,
+  layer: ConfigLayer,
+): HusgitConfig {
+  return {
+    ...base,
+    ...layer,
+    groups: { ...base.groups, ...layer.groups },
+    projects: { ...base.projects, ...layer.projects },
+  };
+}
+
+// Inverse of mergeLayers for saving: every value still equal to the
+// layer's is put back to what `base` had, so repository values never end
+// up in the user's config. Values the user changed are kept.
+export function stripLayer(
+  config: HusgitConfig,
+  base: HusgitConfig,
+  layer: ConfigLayer,
+): HusgitConfig {
+  const result: Record<string, unknown> = {
+    ...config,
+    groups: { ...config.groups },
+    projects: { ...config.projects },
+  };
+  const restore = (
+    target: Record<string, unknown>,
+    key: string,
+    baseValue: unknown,
+  ) => {
+    if (baseValue === undefined) delete target[key];
+    else target[key] = baseValue;
+  };
+
+  for (const [key, layerValue] of Object.entries(layer)) {
+    if (isKeyed(key)) {
+      const entries = result[key] as Record<string, unknown>;
+      for (const [name, value] of Object.entries(layerValue as object)) {
+        if (isDeepStrictEqual(entries[name], value)) {
+          restore(entries, name, base[key][name]);
+        }
+      }
+    } else if (isDeepStrictEqual(result[key], layerValue)) {
+      restore(result, key, base[key as keyof HusgitConfig]);
+    }
+  }
+
+  return result as unknown as HusgitConfig;
+}
+
+// Where each value of the merged config comes from; later layers win
+export function listSources(
+  layers: Array<{ path?: string; config: ConfigLayer }>,
+): ConfigSource[] {
+  const sources = new Map<string, ConfigSource>();
+  for (const { path, config } of layers) {
+    for (const [key, value] of Object.entries(config)) {
+      if (isKeyed(key)) {
+        for (const [name, entry] of Object.entries(value as object)) {
+          sources.set(`${key}.${name}`, {
+            key: `${key}.${name}`,
+            value: entry,
+            path,
+          });
+        }
+      } else {
+        sources.set(key, { key, value, path });
+      }
+    }
+  }
+  return [...sources.values()];
+}
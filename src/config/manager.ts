@@ -1,5 +1,12 @@
-import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
-import { join } from 'node:path';
+import {
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  existsSync,
+  readdirSync,
+  copyFileSync,
+} from 'node:fs';
+import { dirname, join } from 'node:path';
 import { homedir } from 'node:os';
 import type {
   HusgitConfig,
@@ -7,9 +14,31 @@ import type {
   Group,
   ProjectConfig,
 } from '../types.js';
+import { DEFAULT_CONCURRENCY } from '../services/concurrency.js';
+import {
+  findRepoConfig,
+  listSources,
+  REPO_LAYER_FIELDS,
+  mergeLayers,
+  stripLayer,
+  type ConfigLayer,
+  type ConfigSource,
+} from './layers.js';
+import { CONFIG_VERSION, migrateConfig, type RawConfig } from './migrations.js';
 
 const CONFIG_DIR = join(homedir(), '.husgit');
 const CONFIG_PATH = join(CONFIG_DIR, 'config.json');
+const PROFILES_DIR = join(CONFIG_DIR, 'profiles');
+const ACTIVE_PROFILE_PATH = join(CONFIG_DIR, 'active-profile');
+
+// The default profile lives in config.json, as before profiles existed
+export const DEFAULT_PROFILE = 'default';
+export const DEFAULT_TOKEN_ENV = 'GITLAB_TOKEN';
+
+const PROFILE_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// Set by the global --profile option; wins over `husgit profile use`
+let profileOverride: string | undefined;
 
 function defaultConfig(): HusgitConfig {
   return {
@@ -20,67 +49,188 @@ function defaultConfig(): HusgitConfig {
   };
 }
 
-function migrateOldFormat(raw: Record<string, unknown>): HusgitConfig {
-  const oldGroups = raw.groups as Record<string, { projects: ProjectConfig[] }>;
-  const projects: Record<string, ProjectConfig> = {};
-  const newGroups: Record<string, { projectPaths: string[] }> = {};
+export function setProfileOverride(name: string): void {
+  profileOverride = name;
+}
 
-  for (const [groupName, group] of Object.entries(oldGroups)) {
-    newGroups[groupName] = { projectPaths: [] };
-    for (const project of group.projects) {
-      projects[project.fullPath] = project;
-      newGroups[groupName].projectPaths.push(project.fullPath);
-    }
+export function getActiveProfile(): string {
+  if (profileOverride) return profileOverride;
+  if (existsSync(ACTIVE_PROFILE_PATH)) {
+    const name = readFileSync(ACTIVE_PROFILE_PATH, 'utf-8').trim();
+    if (name && profileExists(name)) return name;
   }
+  return DEFAULT_PROFILE;
+}
 
-  return {
-    gitlabUrl: (raw.gitlabUrl as string) || 'https://gitlab.com',
-    environments: (raw.environments as Environment[]) || [],
-    groups: newGroups,
-    projects,
-  };
+export function getProfilePath(name: string): string {
+  return name === DEFAULT_PROFILE
+    ? CONFIG_PATH
+    : join(PROFILES_DIR, `${name}.json`);
+}
+
+export function profileExists(name: string): boolean {
+  return name === DEFAULT_PROFILE || existsSync(getProfilePath(name));
+}
+
+export function listProfiles(): string[] {
+  const named = existsSync(PROFILES_DIR)
+    ? readdirSync(PROFILES_DIR)
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => f.slice(0, -'.json'.length))
+        .sort()
+    : [];
+  return [DEFAULT_PROFILE, ...named];
+}
+
+export function useProfile(name: string): void {
+  if (!profileExists(name)) {
+    throw new Error(`Profile "${name}" not found`);
+  }
+  mkdirSync(CONFIG_DIR, { recursive: true });
+  writeFileSync(ACTIVE_PROFILE_PATH, name + '\n', 'utf-8');
 }
 
-export function loadConfig(): HusgitConfig {
-  if (!existsSync(CONFIG_PATH)) {
+export function createProfile(
+  name: string,
+  options: { gitlabUrl: string; tokenEnv?: string },
+): void {
+  if (!PROFILE_NAME.test(name)) {
+    throw new Error(
+      `Invalid profile name "${name}": use letters, digits, "-" and "_"`,
+    );
+  }
+  if (profileExists(name)) {
+    throw new Error(`Profile "${name}" already exists`);
+  }
+  mkdirSync(PROFILES_DIR, { recursive: true });
+  writeConfig(getProfilePath(name), {
+    gitlabUrl: options.gitlabUrl,
+    ...(options.tokenEnv && { tokenEnv: options.tokenEnv }),
+    environments: [],
+    groups: {},
+    projects: {},
+  });
+}
+
+export function getTokenEnv(config: HusgitConfig): string {
+  return config.tokenEnv ?? DEFAULT_TOKEN_ENV;
+}
+
+// GITLAB_URL keeps overriding the default profile's URL; named profiles
+// always use their own.
+export function getGitlabUrl(
+  config: HusgitConfig,
+  profile: string = getActiveProfile(),
+): string {
+  if (profile === DEFAULT_PROFILE && process.env.GITLAB_URL) {
+    return process.env.GITLAB_URL;
+  }
+  return config.gitlabUrl || 'https://gitlab.com';
+}
+
+// The active profile's config with the repository's config file, if any,
+// merged over it
+export function loadConfig(profile: string = getActiveProfile()): HusgitConfig {
+  const global = loadGlobalConfig(profile);
+  const repo = loadRepoConfig();
+  return repo ? mergeLayers(global, repo.config) : global;
+}
+
+// The profile's own config file, without the repository layer
+export function loadGlobalConfig(
+  profile: string = getActiveProfile(),
+): HusgitConfig {
+  const configPath = getProfilePath(profile);
+  if (!existsSync(configPath)) {
     return defaultConfig();
   }
-  const raw = JSON.parse(readFileSync(CONFIG_PATH, 'utf-8')) as Record<
-    string,
-    unknown
-  >;
-
-  // Detect old format: any group has a `projects` array of objects (not strings)
-  const groups = raw.groups as Record<string, Record<string, unknown>>;
-  if (groups && typeof groups === 'object') {
-    const firstGroup = Object.values(groups)[0];
-    if (
-      firstGroup &&
-      Array.isArray(firstGroup.projects) &&
-      firstGroup.projects.length > 0 &&
-      typeof firstGroup.projects[0] === 'object'
-    ) {
-      const migrated = migrateOldFormat(raw);
-      saveConfig(migrated);
-      return migrated;
-    }
+  const raw = JSON.parse(readFileSync(configPath, 'utf-8')) as RawConfig;
+
+  let migrated: ReturnType<typeof migrateConfig>;
+  try {
+    migrated = migrateConfig(raw);
+  } catch (error: unknown) {
+    throw new Error(
+      `${configPath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
   }
 
-  // Ensure projects field exists (new configs may not have it yet)
-  if (!raw.projects) {
-    raw.projects = {};
+  if (migrated.applied.length > 0) {
+    const backupPath = backupConfigFile(configPath);
+    writeConfig(configPath, migrated.config as unknown as HusgitConfig);
+    console.error(
+      `Migrated ${configPath} to config version ${CONFIG_VERSION} (backup: ${backupPath}).`,
+    );
   }
 
-  return raw as unknown as HusgitConfig;
+  return migrated.config as unknown as HusgitConfig;
 }
 
 export function saveConfig(config: HusgitConfig): void {
-  mkdirSync(CONFIG_DIR, { recursive: true });
-  writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  const repo = loadRepoConfig();
+  writeConfig(
+    getConfigPath(),
+    repo ? stripLayer(config, loadGlobalConfig(), repo.config) : config,
+  );
+}
+
+export function loadRepoConfig(
+  cwd?: string,
+): { path: string; config: ConfigLayer } | undefined {
+  const path = findRepoConfig(cwd);
+  if (!path) return undefined;
+
+  // Migrated in memory only: the file belongs to the repository
+  let config: ConfigLayer;
+  try {
+    config = validateConfigLayer(
+      migrateConfig(JSON.parse(readFileSync(path, 'utf-8'))).config,
+    );
+  } catch (error: unknown) {
+    throw new Error(
+      `Invalid config in ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  return { path, config };
+}
+
+export function getConfigSources(): ConfigSource[] {
+  const globalPath = getConfigPath();
+  const repo = loadRepoConfig();
+  return listSources([
+    {
+      path: existsSync(globalPath) ? globalPath : undefined,
+      config: loadGlobalConfig(),
+    },
+    ...(repo ? [repo] : []),
+  ]);
+}
+
+function writeConfig(path: string, config: HusgitConfig): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, serializeConfig(config), 'utf-8');
+}
+
+// Always stamps the current schema version, first in the file
+export function serializeConfig(config: HusgitConfig): string {
+  const { version: _version, ...fields } = config;
+  return JSON.stringify({ version: CONFIG_VERSION, ...fields }, null, 2) + '\n';
+}
+
+// Copies a config file next to itself before it gets rewritten. Returns the
+// backup's path, or undefined when there was no file yet.
+export function backupConfigFile(
+  path: string = getConfigPath(),
+): string | undefined {
+  if (!existsSync(path)) return undefined;
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = path.replace(/\.json$/, `.backup.${timestamp}.json`);
+  copyFileSync(path, backupPath);
+  return backupPath;
 }
 
 export function getConfigPath(): string {
-  return CONFIG_PATH;
+  return getProfilePath(getActiveProfile());
 }
 
 export function hasEnvironments(config: HusgitConfig): boolean {
@@ -112,6 +262,42 @@ export function getPreviousEnvironment(
   return config.environments.find((e) => e.order === env.order - 1);
 }
 
+export function getConcurrency(
+  config: HusgitConfig,
+  override?: number,
+): number {
+  return override ?? config.concurrency ?? DEFAULT_CONCURRENCY;
+}
+
+// Every branch mapped to an environment by at least one project. These are
+// long-lived and must never be deleted by husgit.
+export function getEnvironmentBranches(config: HusgitConfig): Set<string> {
+  return new Set(
+    Object.values(config.projects).flatMap((p) => Object.values(p.branchMap)),
+  );
+}
+
+// The environments from `fromName` to `toName` inclusive, following the
+// order chain in either direction. Undefined if either name is unknown.
+export function getEnvironmentPath(
+  config: HusgitConfig,
+  fromName: string,
+  toName: string,
+): Environment[] | undefined {
+  const from = getEnvironmentByName(config, fromName);
+  const to = getEnvironmentByName(config, toName);
+  if (!from || !to) return undefined;
+
+  const step = to.order >= from.order ? 1 : -1;
+  const path: Environment[] = [];
+  for (let order = from.order; ; order += step) {
+    const env = config.environments.find((e) => e.order === order);
+    if (!env) return undefined;
+    path.push(env);
+    if (order === to.order) return path;
+  }
+}
+
 export function setEnvironments(
   config: HusgitConfig,
   environments: Environment[],
@@ -183,6 +369,35 @@ export function getGroup(
   return config.groups[name];
 }
 
+// A repository config is a partial overlay: each field is optional, and
+// fields outside REPO_LAYER_FIELDS are refused rather than ignored.
+export function validateConfigLayer(config: unknown): ConfigLayer {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('Config must be an object');
+  }
+
+  const cfg = config as Record<string, unknown>;
+  const allowed: readonly string[] = REPO_LAYER_FIELDS;
+  for (const key of Object.keys(cfg)) {
+    if (key === 'version' || allowed.includes(key)) continue;
+    throw new Error(
+      key === 'gitlabUrl' || key === 'tokenEnv'
+        ? `Field "${key}" is not allowed in a repository config: the GitLab host and token only come from your own config`
+        : `Field "${key}" is not allowed in a repository config (allowed: ${allowed.join(', ')})`,
+    );
+  }
+
+  return {
+    ...(cfg.environments !== undefined && {
+      environments: validateEnvironments(cfg.environments),
+    }),
+    ...(cfg.groups !== undefined && { groups: validateGroups(cfg.groups) }),
+    ...(cfg.projects !== undefined && {
+      projects: validateProjects(cfg.projects),
+    }),
+  };
+}
+
 export function validateConfig(config: unknown): HusgitConfig {
   if (!config || typeof config !== 'object') {
     throw new Error('Config must be an object');
@@ -190,23 +405,78 @@ export function validateConfig(config: unknown): HusgitConfig {
 
   const cfg = config as Record<string, unknown>;
 
+  if (cfg.version !== undefined) {
+    if (!Number.isInteger(cfg.version) || (cfg.version as number) < 0) {
+      throw new Error('Config field "version" must be a non-negative integer');
+    }
+    if ((cfg.version as number) > CONFIG_VERSION) {
+      throw new Error(
+        `Config version ${cfg.version} was written by a newer husgit (this one supports up to version ${CONFIG_VERSION})`,
+      );
+    }
+  }
+
   if (cfg.gitlabUrl !== undefined && typeof cfg.gitlabUrl !== 'string') {
     throw new Error('Config field "gitlabUrl" must be a string');
   }
 
-  if (!Array.isArray(cfg.environments)) {
+  if (
+    cfg.concurrency !== undefined &&
+    (!Number.isInteger(cfg.concurrency) || (cfg.concurrency as number) < 1)
+  ) {
+    throw new Error('Config field "concurrency" must be a positive integer');
+  }
+
+  if (
+    cfg.tokenEnv !== undefined &&
+    (typeof cfg.tokenEnv !== 'string' || cfg.tokenEnv.trim() === '')
+  ) {
+    throw new Error('Config field "tokenEnv" must be a non-empty string');
+  }
+
+  if (
+    cfg.tagTemplate !== undefined &&
+    (typeof cfg.tagTemplate !== 'string' || cfg.tagTemplate.trim() === '')
+  ) {
+    throw new Error('Config field "tagTemplate" must be a non-empty string');
+  }
+
+  validateEnvironments(cfg.environments);
+  const groupsObj = validateGroups(cfg.groups);
+  const projectsObj = validateProjects(cfg.projects ?? {});
+
+  return {
+    ...(cfg.version !== undefined && { version: cfg.version as number }),
+    gitlabUrl: (cfg.gitlabUrl as string) || 'https://gitlab.com',
+    environments: cfg.environments as Environment[],
+    groups: groupsObj as Record<string, Group>,
+    projects: projectsObj as Record<string, ProjectConfig>,
+    ...(cfg.concurrency !== undefined && {
+      concurrency: cfg.concurrency as number,
+    }),
+    ...(cfg.tagTemplate !== undefined && {
+      tagTemplate: cfg.tagTemplate as string,
+    }),
+    ...(cfg.tokenEnv !== undefined && {
+      tokenEnv: cfg.tokenEnv as string,
+    }),
+  };
+}
+
+function validateEnvironments(environments: unknown): Environment[] {
+  if (!Array.isArray(environments)) {
     throw new Error('Config field "environments" must be an array');
   }
 
-  if (cfg.environments.length === 0) {
+  if (environments.length === 0) {
     throw new Error('Config must have at least one environment');
   }
 
   const envOrders = new Set<number>();
   const envNames = new Set<string>();
 
-  for (let i = 0; i < cfg.environments.length; i++) {
-    const env = cfg.environments[i];
+  for (let i = 0; i < environments.length; i++) {
+    const env = environments[i];
     if (!env || typeof env !== 'object') {
       throw new Error(`Environment at index ${i} must be an object`);
     }
@@ -232,6 +502,14 @@ export function validateConfig(config: unknown): HusgitConfig {
         `Environment "${envObj.name}" field "defaultBranch" must be a string`,
       );
     }
+    if (
+      envObj.autoMerge !== undefined &&
+      typeof envObj.autoMerge !== 'boolean'
+    ) {
+      throw new Error(
+        `Environment "${envObj.name}" field "autoMerge" must be a boolean`,
+      );
+    }
 
     if (envNames.has(envObj.name)) {
       throw new Error(`Duplicate environment name: "${envObj.name}"`);
@@ -253,15 +531,15 @@ export function validateConfig(config: unknown): HusgitConfig {
     }
   }
 
-  if (
-    !cfg.groups ||
-    typeof cfg.groups !== 'object' ||
-    Array.isArray(cfg.groups)
-  ) {
+  return environments as Environment[];
+}
+
+function validateGroups(groups: unknown): Record<string, Group> {
+  if (!groups || typeof groups !== 'object' || Array.isArray(groups)) {
     throw new Error('Config field "groups" must be an object');
   }
 
-  const groupsObj = cfg.groups as Record<string, unknown>;
+  const groupsObj = groups as Record<string, unknown>;
 
   for (const [groupName, groupValue] of Object.entries(groupsObj)) {
     if (
@@ -289,13 +567,15 @@ export function validateConfig(config: unknown): HusgitConfig {
     }
   }
 
-  // Validate projects registry
-  const projectsRaw = cfg.projects ?? {};
-  if (typeof projectsRaw !== 'object' || Array.isArray(projectsRaw)) {
+  return groupsObj as Record<string, Group>;
+}
+
+function validateProjects(projects: unknown): Record<string, ProjectConfig> {
+  if (!projects || typeof projects !== 'object' || Array.isArray(projects)) {
     throw new Error('Config field "projects" must be an object');
   }
 
-  const projectsObj = projectsRaw as Record<string, unknown>;
+  const projectsObj = projects as Record<string, unknown>;
 
   for (const [fullPath, projValue] of Object.entries(projectsObj)) {
     if (
@@ -339,10 +619,5 @@ export function validateConfig(config: unknown): HusgitConfig {
     }
   }
 
-  return {
-    gitlabUrl: (cfg.gitlabUrl as string) || 'https://gitlab.com',
-    environments: cfg.environments as Environment[],
-    groups: groupsObj as Record<string, Group>,
-    projects: projectsObj as Record<string, ProjectConfig>,
-  };
+  return projectsObj as Record<string, ProjectConfig>;
 }
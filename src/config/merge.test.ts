@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { diffConfigs, findConflicts, mergeConfigs } from './merge.js';
+import type { HusgitConfig } from '../types.js';
+
+const ours: HusgitConfig = {
+  version: 1,
+  gitlabUrl: 'https://gitlab.com',
+  environments: [{ name: 'dev', order: 0 }],
+  groups: { backend: { projectPaths: ['acme/api'] } },
+  projects: {
+    'acme/api': {
+      externalId: '1',
+      name: 'api',
+      fullPath: 'acme/api',
+      branchMap: { dev: 'develop' },
+    },
+  },
+};
+
+const theirs: HusgitConfig = {
+  gitlabUrl: 'https://gitlab.example.com',
+  environments: [],
+  groups: {
+    backend: { projectPaths: ['acme/api', 'acme/worker'] },
+    frontend: { projectPaths: ['acme/web'] },
+  },
+  projects: {},
+  concurrency: 8,
+};
+
+describe('findConflicts', () => {
+  it('only reports keys both sides set to different values', () => {
+    expect(findConflicts(ours, theirs)).toEqual([
+      {
+        key: 'groups.backend',
+        ours: ours.groups.backend,
+        theirs: theirs.groups.backend,
+      },
+    ]);
+  });
+
+  it('ignores the version', () => {
+    expect(findConflicts(ours, { ...ours, version: 0 })).toEqual([]);
+  });
+});
+
+describe('mergeConfigs', () => {
+  it('keeps entries only one side has', () => {
+    const merged = mergeConfigs(ours, theirs, () => 'ours');
+
+    expect(merged.environments).toEqual(ours.environments);
+    expect(merged.projects).toEqual(ours.projects);
+    expect(Object.keys(merged.groups)).toEqual(['backend', 'frontend']);
+  });
+
+  it('takes conflicting entries from the preferred side', () => {
+    expect(mergeConfigs(ours, theirs, () => 'theirs').groups.backend).toEqual(
+      theirs.groups.backend,
+    );
+    expect(mergeConfigs(ours, theirs, () => 'ours').groups.backend).toEqual(
+      ours.groups.backend,
+    );
+  });
+
+  it('keeps our instance settings whatever the preference', () => {
+    const merged = mergeConfigs(
+      ours,
+      { ...theirs, tokenEnv: 'OTHER_TOKEN', tagTemplate: '{date}' },
+      () => 'theirs',
+    );
+
+    expect(merged.gitlabUrl).toBe('https://gitlab.com');
+    expect(merged).not.toHaveProperty('tokenEnv');
+    expect(merged).not.toHaveProperty('concurrency');
+    expect(merged).not.toHaveProperty('tagTemplate');
+    expect(merged.version).toBe(1);
+  });
+});
+
+describe('diffConfigs', () => {
+  it('lists added, changed and removed entries', () => {
+    const after: HusgitConfig = {
+      ...ours,
+      groups: { frontend: { projectPaths: [] } },
+      projects: {
+        'acme/api': {
+          ...ours.projects['acme/api'],
+          branchMap: { dev: 'dev' },
+        },
+      },
+    };
+
+    expect(
+      diffConfigs(ours, after).map(({ key, change }) => [key, change]),
+    ).toEqual([
+      ['groups.frontend', 'added'],
+      ['projects.acme/api', 'changed'],
+      ['groups.backend', 'removed'],
+    ]);
+  });
+
+  it('treats no environments as not set', () => {
+    expect(diffConfigs({ ...ours, environments: [] }, ours)).toEqual([
+      { key: 'environments', change: 'added', after: ours.environments },
+    ]);
+  });
+});
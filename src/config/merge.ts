@@ -0,0 +1,118 @@
+import { isDeepStrictEqual } from 'node:util';
+import type { HusgitConfig } from '../types.js';
+import { listSources, REPO_LAYER_FIELDS } from './layers.js';
+
+export type MergeSide = 'ours' | 'theirs';
+
+export interface ConfigConflict {
+  // Same keys as `config show --sources`: "environments", "groups.<name>"...
+  key: string;
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface ConfigChange {
+  key: string;
+  change: 'added' | 'changed' | 'removed';
+  before?: unknown;
+  after?: unknown;
+}
+
+// One entry per scalar setting, the environment chain, each group and each
+// project. The version is not part of the content.
+function flatten(config: HusgitConfig): Map<string, unknown> {
+  const entries = new Map<string, unknown>();
+  for (const { key, value } of listSources([{ config }])) {
+    if (key === 'version') continue;
+    // No environments yet is the same as not setting them
+    if (key === 'environments' && (value as unknown[]).length === 0) continue;
+    entries.set(key, value);
+  }
+  return entries;
+}
+
+// Only the shared setup is merged; the GitLab host, token and preferences
+// are instance settings and always stay ours, as with repository configs.
+function flattenShared(config: HusgitConfig): Map<string, unknown> {
+  const fields: readonly string[] = REPO_LAYER_FIELDS;
+  return new Map(
+    [...flatten(config)].filter(([key]) => fields.includes(key.split('.')[0])),
+  );
+}
+
+function unflatten(entries: Map<string, unknown>): HusgitConfig {
+  const config: Record<string, unknown> = {
+    environments: [],
+    groups: {},
+    projects: {},
+  };
+  for (const [key, value] of entries) {
+    const dot = key.indexOf('.');
+    const field = dot === -1 ? key : key.slice(0, dot);
+    if (field === 'groups' || field === 'projects') {
+      (config[field] as Record<string, unknown>)[key.slice(dot + 1)] = value;
+    } else {
+      config[key] = value;
+    }
+  }
+  return config as unknown as HusgitConfig;
+}
+
+export function findConflicts(
+  ours: HusgitConfig,
+  theirs: HusgitConfig,
+): ConfigConflict[] {
+  const ourEntries = flattenShared(ours);
+  const conflicts: ConfigConflict[] = [];
+  for (const [key, value] of flattenShared(theirs)) {
+    if (ourEntries.has(key) && !isDeepStrictEqual(ourEntries.get(key), value)) {
+      conflicts.push({ key, ours: ourEntries.get(key), theirs: value });
+    }
+  }
+  return conflicts;
+}
+
+// Environments, groups and projects only one side has are kept; conflicting
+// entries are taken from the side `prefer` picks for their key. Every other
+// setting is ours.
+export function mergeConfigs(
+  ours: HusgitConfig,
+  theirs: HusgitConfig,
+  prefer: (key: string) => MergeSide,
+): HusgitConfig {
+  const merged = flattenShared(ours);
+  for (const [key, value] of flattenShared(theirs)) {
+    if (!merged.has(key) || prefer(key) === 'theirs') {
+      merged.set(key, value);
+    }
+  }
+  return { ...ours, ...unflatten(merged) };
+}
+
+export function diffConfigs(
+  before: HusgitConfig,
+  after: HusgitConfig,
+): ConfigChange[] {
+  const beforeEntries = flatten(before);
+  const afterEntries = flatten(after);
+  const changes: ConfigChange[] = [];
+
+  for (const [key, value] of afterEntries) {
+    if (!beforeEntries.has(key)) {
+      changes.push({ key, change: 'added', after: value });
+    } else if (!isDeepStrictEqual(beforeEntries.get(key), value)) {
+      changes.push({
+        key,
+        change: 'changed',
+        before: beforeEntries.get(key),
+        after: value,
+      });
+    }
+  }
+  for (const [key, value] of beforeEntries) {
+    if (!afterEntries.has(key)) {
+      changes.push({ key, change: 'removed', before: value });
+    }
+  }
+  return changes;
+}
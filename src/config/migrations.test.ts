@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG_VERSION, migrateConfig } from './migrations.js';
+
+const api = {
+  externalId: '1',
+  name: 'api',
+  fullPath: 'acme/api',
+  branchMap: { dev: 'develop' },
+};
+
+describe('migrateConfig', () => {
+  it('moves projects out of version 0 groups into the registry', () => {
+    const { config, applied } = migrateConfig({
+      gitlabUrl: 'https://gitlab.com',
+      groups: { backend: { projects: [api] } },
+    });
+
+    expect(applied.map((m) => m.version)).toEqual([1]);
+    expect(config).toEqual({
+      gitlabUrl: 'https://gitlab.com',
+      groups: { backend: { projectPaths: ['acme/api'] } },
+      projects: { 'acme/api': api },
+      version: 1,
+    });
+  });
+
+  it('leaves groups already using projectPaths alone', () => {
+    const { config } = migrateConfig({
+      groups: { backend: { projectPaths: ['acme/api'] } },
+      projects: { 'acme/api': api },
+    });
+
+    expect(config.groups).toEqual({ backend: { projectPaths: ['acme/api'] } });
+    expect(config.projects).toEqual({ 'acme/api': api });
+  });
+
+  it('does nothing on a current config', () => {
+    const raw = { version: CONFIG_VERSION, groups: {}, projects: {} };
+
+    expect(migrateConfig(raw)).toEqual({ config: raw, applied: [] });
+  });
+
+  it('refuses configs from a newer husgit', () => {
+    expect(() => migrateConfig({ version: CONFIG_VERSION + 1 })).toThrow(
+      'written by a newer husgit',
+    );
+  });
+
+  it.each([-1, 1.5, '1'])('refuses version %j', (version) => {
+    expect(() => migrateConfig({ version })).toThrow(
+      'must be a non-negative integer',
+    );
+  });
+
+  it('refuses anything but an object', () => {
+    expect(() => migrateConfig([])).toThrow('Config must be an object');
+  });
+});
@@ -0,0 +1,75 @@
+import type { ProjectConfig } from '../types.js';
+
+// Bump together with a new entry in MIGRATIONS
+export const CONFIG_VERSION = 1;
+
+export type RawConfig = Record<string, unknown>;
+
+export interface Migration {
+  // Version the config has once this migration ran
+  version: number;
+  description: string;
+  migrate: (raw: RawConfig) => RawConfig;
+}
+
+// Ordered by version. Configs without a `version` field are version 0.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Move projects out of groups into the project registry',
+    migrate: (raw) => {
+      const projects = { ...(raw.projects as Record<string, ProjectConfig>) };
+      const groups: Record<string, unknown> = {};
+
+      const oldGroups = (raw.groups ?? {}) as Record<string, RawConfig>;
+      for (const [name, group] of Object.entries(oldGroups)) {
+        // Before the registry, groups held the project objects themselves
+        if (!Array.isArray(group.projects)) {
+          groups[name] = group;
+          continue;
+        }
+        const projectPaths: string[] = [];
+        for (const project of group.projects as ProjectConfig[]) {
+          projects[project.fullPath] = project;
+          projectPaths.push(project.fullPath);
+        }
+        groups[name] = { projectPaths };
+      }
+
+      return { ...raw, groups, projects };
+    },
+  },
+];
+
+export function getConfigVersion(raw: RawConfig): number {
+  const version = raw.version ?? 0;
+  if (!Number.isInteger(version) || (version as number) < 0) {
+    throw new Error('Config field "version" must be a non-negative integer');
+  }
+  return version as number;
+}
+
+// Applies the pending migrations in order. `applied` is empty when the
+// config is already current.
+export function migrateConfig(raw: unknown): {
+  config: RawConfig;
+  applied: Migration[];
+} {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Config must be an object');
+  }
+  const version = getConfigVersion(raw as RawConfig);
+  if (version > CONFIG_VERSION) {
+    throw new Error(
+      `Config version ${version} was written by a newer husgit (this one supports up to version ${CONFIG_VERSION}). ` +
+        'Upgrade with "npm install -g husgit-cli".',
+    );
+  }
+
+  const applied = MIGRATIONS.filter((m) => m.version > version);
+  let config = raw as RawConfig;
+  for (const migration of applied) {
+    config = { ...migration.migrate(config), version: migration.version };
+  }
+  return { config, applied };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GitlabClient } from './client.js';
+
+function mr(iid: number) {
+  return {
+    id: `gid://gitlab/MergeRequest/${iid}`,
+    iid: String(iid),
+    webUrl: `https://gitlab.com/acme/api/-/merge_requests/${iid}`,
+    state: 'opened',
+    sourceBranch: 'develop',
+    targetBranch: 'staging',
+  };
+}
+
+function page(iids: number[], endCursor: string | null) {
+  return {
+    nodes: iids.map(mr),
+    pageInfo: { hasNextPage: endCursor !== null, endCursor },
+  };
+}
+
+describe('getOpenMergeRequestsForProjects', () => {
+  it('follows the pages of each project', async () => {
+    const client = new GitlabClient('token');
+    const query = vi.fn((_query: unknown, variables: { after?: string }) => ({
+      toPromise: async () => ({
+        data:
+          variables.after === undefined
+            ? {
+                projects: {
+                  nodes: [
+                    {
+                      fullPath: 'acme/api',
+                      mergeRequests: page([1, 2], 'c1'),
+                    },
+                    { fullPath: 'acme/web', mergeRequests: page([7], null) },
+                  ],
+                },
+              }
+            : variables.after === 'c1'
+              ? { project: { mergeRequests: page([3], 'c2') } }
+              : { project: { mergeRequests: page([4], null) } },
+      }),
+    }));
+    Object.assign(client, { gqlClient: { query } });
+
+    const mrs = await client.getOpenMergeRequestsForProjects(
+      ['acme/api', 'acme/web'],
+      ['develop'],
+      ['staging'],
+    );
+
+    expect(mrs.get('acme/api')?.map((m) => m.iid)).toEqual([
+      '1',
+      '2',
+      '3',
+      '4',
+    ]);
+    expect(mrs.get('acme/web')?.map((m) => m.iid)).toEqual(['7']);
+    expect(query).toHaveBeenCalledTimes(3);
+  });
+});
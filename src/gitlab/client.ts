@@ -5,14 +5,30 @@ import {
   type OperationResult,
 } from '@urql/core';
 import axios, { type AxiosInstance } from 'axios';
-import type { GitlabProject } from '../types.js';
+import { loadConfig, getGitlabUrl, getTokenEnv } from '../config/manager.js';
+import { getHost, loadStoredToken } from '../config/credentials.js';
+import type {
+  BranchComparison,
+  CommitSummary,
+  GitlabProject,
+  HusgitConfig,
+} from '../types.js';
 import {
   checkCurrentUser,
   getProjects,
   getProjectBranches,
   getProjectOpenedMergeRequestBySourceAndTarget,
+  getOpenMergeRequestsForProjects,
+  getProjectOpenMergeRequestsPage,
   updateProjectMergeRequest,
 } from './queries.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  getRestFailure,
+  retryGraphql,
+  retryRest,
+  withRetry,
+} from './request.js';
 
 interface GetProjectsData {
   projects?: {
@@ -21,6 +37,145 @@ interface GetProjectsData {
   };
 }
 
+interface CompareCommit {
+  id: string;
+  short_id: string;
+  title: string;
+  message: string;
+  author_name: string;
+  web_url: string;
+  parent_ids?: string[];
+}
+
+interface MergedMergeRequestData {
+  iid: number;
+  title: string;
+  author?: { name: string };
+  merge_commit_sha?: string | null;
+  squash_commit_sha?: string | null;
+  web_url: string;
+}
+
+export interface MergeRequestRef {
+  mrId: string;
+  mrIid: string;
+  mrUrl: string;
+  // Title before an update overwrote it
+  previousTitle?: string;
+}
+
+export interface MergeRequestAttributes {
+  assigneeIds?: number[];
+  reviewerIds?: number[];
+  labels?: string[];
+  milestoneId?: number;
+}
+
+export interface MergeRequestState {
+  title: string;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  targetBranch: string;
+  pipelineStatus?: string;
+  // Commit that landed the MR on its target (merge or squash commit)
+  mergedCommitSha?: string;
+  webUrl: string;
+}
+
+export interface MergedMergeRequest {
+  iid: string;
+  title: string;
+  authorName: string;
+  mergedCommitSha: string;
+  webUrl: string;
+}
+
+export interface OpenMergeRequestData {
+  id: string;
+  iid: string;
+  webUrl: string;
+  state: string;
+  sourceBranch: string;
+  targetBranch: string;
+  // Lower-cased GitLab enums, e.g. "failed" and "need_rebase"
+  pipelineStatus?: string;
+  mergeStatus?: string;
+  approvals: number;
+}
+
+interface OpenMergeRequestConnection {
+  nodes: (OpenMergeRequestNode | null)[];
+  pageInfo?: { hasNextPage: boolean; endCursor: string | null };
+}
+
+interface OpenMergeRequestNode {
+  id: string;
+  iid: string;
+  webUrl: string;
+  state: string;
+  sourceBranch: string;
+  targetBranch: string;
+  detailedMergeStatus?: string | null;
+  headPipeline?: { status: string } | null;
+  approvedBy?: { nodes: unknown[] } | null;
+}
+
+export interface TokenInfo {
+  name: string;
+  scopes: string[];
+  // ISO date (YYYY-MM-DD), absent for tokens that never expire
+  expiresAt?: string;
+}
+
+export interface GitlabTag {
+  name: string;
+  // Commit the tag points to
+  commitSha: string;
+  hasRelease: boolean;
+}
+
+export interface AutoMergeSettings {
+  squash?: boolean;
+  removeSourceBranch: boolean;
+}
+
+// Statuses GitLab returns while it is still computing a fresh MR's mergeability
+const MERGE_NOT_READY_STATUSES = new Set([405, 406, 422]);
+
+// Keeps the `projects(fullPaths:)` query within GitLab's complexity limit
+export const MAX_PROJECTS_PER_QUERY = 20;
+
+function toCommitSummary(c: CompareCommit): CommitSummary {
+  return {
+    id: c.id,
+    shortId: c.short_id,
+    title: c.title,
+    message: c.message,
+    authorName: c.author_name,
+    webUrl: c.web_url,
+    parentIds: c.parent_ids || [],
+  };
+}
+
+function toOpenMergeRequestData(
+  node: OpenMergeRequestNode,
+): OpenMergeRequestData {
+  return {
+    id: node.id,
+    iid: node.iid,
+    webUrl: node.webUrl,
+    state: node.state,
+    sourceBranch: node.sourceBranch,
+    targetBranch: node.targetBranch,
+    pipelineStatus: node.headPipeline?.status.toLowerCase(),
+    mergeStatus: node.detailedMergeStatus?.toLowerCase(),
+    approvals: node.approvedBy?.nodes.length ?? 0,
+  };
+}
+
+function parseGlobalId(id: string): string {
+  return id.includes('MergeRequest/') ? id.split('MergeRequest/')[1] : id;
+}
+
 export class GitlabClient {
   private gqlClient: Client;
   private axiosClient: AxiosInstance;
@@ -47,23 +202,41 @@ export class GitlabClient {
     });
   }
 
+  getGitlabUrl(): string {
+    return this.gitlabUrl;
+  }
+
   async checkCurrentUser(): Promise<string> {
-    const { data, error } = await this.gqlClient
-      .query(checkCurrentUser, {})
-      .toPromise();
+    const { data, error } = await retryGraphql(() =>
+      this.gqlClient.query(checkCurrentUser, {}).toPromise(),
+    );
 
     if (error) throw new Error(`GitLab auth failed: ${error.message}`);
     return data?.currentUser?.name || '';
   }
 
+  // Only personal, group and project access tokens can describe themselves
+  async getCurrentToken(): Promise<TokenInfo> {
+    const { data } = await retryRest(() =>
+      this.axiosClient.get('/personal_access_tokens/self'),
+    );
+    return {
+      name: data.name,
+      scopes: data.scopes ?? [],
+      expiresAt: data.expires_at ?? undefined,
+    };
+  }
+
   async getUserProjects(): Promise<GitlabProject[]> {
     const allProjects: GitlabProject[] = [];
     let after: string | null = null;
 
     while (true) {
-      const result: OperationResult<GetProjectsData> = await this.gqlClient
-        .query<GetProjectsData>(getProjects, { membership: true, after })
-        .toPromise();
+      const result: OperationResult<GetProjectsData> = await retryGraphql(() =>
+        this.gqlClient
+          .query<GetProjectsData>(getProjects, { membership: true, after })
+          .toPromise(),
+      );
 
       if (result.error)
         throw new Error(`Failed to fetch projects: ${result.error.message}`);
@@ -87,49 +260,105 @@ export class GitlabClient {
   }
 
   async getProjectById(projectId: string): Promise<GitlabProject> {
-    const { data } = await this.axiosClient.get(`/projects/${projectId}`);
-    return {
-      externalId: String(data.id),
-      name: data.name_with_namespace,
-      fullPath: data.path_with_namespace,
-    };
+    try {
+      const { data } = await retryRest(() =>
+        this.axiosClient.get(`/projects/${projectId}`),
+      );
+      return {
+        externalId: String(data.id),
+        name: data.name_with_namespace,
+        fullPath: data.path_with_namespace,
+      };
+    } catch (error: unknown) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new Error('PROJECT_NOT_FOUND');
+      }
+      throw error;
+    }
   }
 
   async getProjectBranches(
     fullPath: string,
     searchPattern: string = '',
   ): Promise<string[]> {
-    const { data } = await this.gqlClient
-      .query(getProjectBranches, {
-        fullPath,
-        searchPattern: `${searchPattern}*`,
-      })
-      .toPromise();
+    const { data } = await retryGraphql(() =>
+      this.gqlClient
+        .query(getProjectBranches, {
+          fullPath,
+          searchPattern: `${searchPattern}*`,
+        })
+        .toPromise(),
+    );
 
     return data?.project?.repository?.branchNames || [];
   }
 
+  async compareBranches(
+    projectExternalId: string,
+    from: string,
+    to: string,
+  ): Promise<BranchComparison> {
+    const { data } = await retryRest(() =>
+      this.axiosClient.get(
+        `/projects/${projectExternalId}/repository/compare`,
+        { params: { from, to } },
+      ),
+    );
+    return {
+      commits: (data.commits || []).map(toCommitSummary),
+      filesChanged: (data.diffs || []).length,
+    };
+  }
+
+  // MR creation is not idempotent: before retrying a request that failed
+  // transiently, check whether GitLab created the MR anyway.
   async createMergeRequest(
     projectExternalId: string,
+    projectFullPath: string,
     title: string,
     sourceBranch: string,
     targetBranch: string,
     description?: string,
-  ): Promise<{ mrId: string; mrUrl: string }> {
+    attributes: MergeRequestAttributes = {},
+  ): Promise<MergeRequestRef> {
+    let attempt = 0;
+
     try {
-      const { data } = await this.axiosClient.post(
-        `/projects/${projectExternalId}/merge_requests`,
-        {
-          title,
-          description,
-          source_branch: sourceBranch,
-          target_branch: targetBranch,
-        },
-      );
-      return {
-        mrId: String(data.iid),
-        mrUrl: data.web_url,
-      };
+      return await retryRest(async () => {
+        if (attempt++ > 0) {
+          const [existing] = await this.getOpenMergeRequests(
+            projectFullPath,
+            sourceBranch,
+            targetBranch,
+          );
+          if (existing) {
+            return {
+              mrId: parseGlobalId(existing.id),
+              mrIid: existing.iid,
+              mrUrl: existing.webUrl,
+            };
+          }
+        }
+
+        const { data } = await this.axiosClient.post(
+          `/projects/${projectExternalId}/merge_requests`,
+          {
+            title,
+            description,
+            source_branch: sourceBranch,
+            target_branch: targetBranch,
+            assignee_ids: attributes.assigneeIds,
+            reviewer_ids: attributes.reviewerIds,
+            labels: attributes.labels?.join(','),
+            milestone_id: attributes.milestoneId,
+          },
+        );
+        return {
+          mrId: String(data.id),
+          mrIid: String(data.iid),
+          mrUrl: data.web_url,
+        };
+      });
     } catch (error: unknown) {
       if (axios.isAxiosError(error) && error.response?.status === 409) {
         throw new Error('MR_ALREADY_EXISTS');
@@ -144,76 +373,467 @@ export class GitlabClient {
     projectFullPath: string,
     title: string,
     description?: string,
-  ): Promise<{ mrId: string; mrUrl: string }> {
-    const { data } = await this.gqlClient
-      .query(getProjectOpenedMergeRequestBySourceAndTarget, {
-        fullPath: projectFullPath,
-        sourceBranches: [sourceBranch],
-        targetBranches: [targetBranch],
-      })
-      .toPromise();
+    attributes: MergeRequestAttributes = {},
+  ): Promise<MergeRequestRef> {
+    const { data } = await retryGraphql(() =>
+      this.gqlClient
+        .query(getProjectOpenedMergeRequestBySourceAndTarget, {
+          fullPath: projectFullPath,
+          sourceBranches: [sourceBranch],
+          targetBranches: [targetBranch],
+        })
+        .toPromise(),
+    );
 
     const edges = data?.project?.mergeRequests?.edges;
     if (!edges?.length || !edges[0]?.node) {
       throw new Error('NO_MR_FOUND');
     }
 
-    const { id, iid, webUrl } = edges[0].node;
-    const externalMrId = id.includes('MergeRequest/')
-      ? id.split('MergeRequest/')[1]
-      : id;
+    const { id, iid, webUrl, title: previousTitle } = edges[0].node;
 
-    const mutRes = await this.gqlClient
-      .mutation(updateProjectMergeRequest, {
-        fullPath: projectFullPath,
-        iid,
-        title,
-      })
-      .toPromise();
+    // Setting title and description is idempotent, so the mutation is safe to
+    // retry
+    const mutRes = await retryGraphql(() =>
+      this.gqlClient
+        .mutation(updateProjectMergeRequest, {
+          fullPath: projectFullPath,
+          iid,
+          title,
+          description,
+        })
+        .toPromise(),
+    );
 
     if (mutRes.error) {
       throw new Error(`Failed to update MR: ${mutRes.error.message}`);
     }
 
+    if (Object.values(attributes).some((v) => v !== undefined)) {
+      // Labels are added rather than replaced so existing ones survive
+      await retryRest(() =>
+        this.axiosClient.put(
+          `/projects/${encodeURIComponent(projectFullPath)}/merge_requests/${iid}`,
+          {
+            assignee_ids: attributes.assigneeIds,
+            reviewer_ids: attributes.reviewerIds,
+            add_labels: attributes.labels?.join(','),
+            milestone_id: attributes.milestoneId,
+          },
+        ),
+      );
+    }
+
     return {
-      mrId: externalMrId,
+      mrId: parseGlobalId(id),
+      mrIid: iid,
       mrUrl:
         webUrl ||
         `${this.gitlabUrl}/${projectFullPath}/-/merge_requests/${iid}`,
+      previousTitle,
+    };
+  }
+
+  // Closing and retitling are idempotent, so both are safe to retry
+  async closeMergeRequest(
+    projectExternalId: string,
+    mrIid: string,
+  ): Promise<void> {
+    await retryRest(() =>
+      this.axiosClient.put(
+        `/projects/${projectExternalId}/merge_requests/${mrIid}`,
+        { state_event: 'close' },
+      ),
+    );
+  }
+
+  async setMergeRequestTitle(
+    projectExternalId: string,
+    mrIid: string,
+    title: string,
+  ): Promise<void> {
+    await retryRest(() =>
+      this.axiosClient.put(
+        `/projects/${projectExternalId}/merge_requests/${mrIid}`,
+        { title },
+      ),
+    );
+  }
+
+  async getMergeRequest(
+    projectExternalId: string,
+    mrIid: string,
+  ): Promise<MergeRequestState> {
+    const { data } = await retryRest(() =>
+      this.axiosClient.get(
+        `/projects/${projectExternalId}/merge_requests/${mrIid}`,
+      ),
+    );
+    return {
+      title: data.title,
+      state: data.state,
+      targetBranch: data.target_branch,
+      pipelineStatus: data.head_pipeline?.status,
+      mergedCommitSha: data.merge_commit_sha ?? data.squash_commit_sha,
+      webUrl: data.web_url,
     };
   }
 
+  async listMergedMergeRequests(
+    projectExternalId: string,
+    targetBranch: string,
+    limit: number = 30,
+  ): Promise<MergedMergeRequest[]> {
+    const { data } = await retryRest(() =>
+      this.axiosClient.get(`/projects/${projectExternalId}/merge_requests`, {
+        params: {
+          state: 'merged',
+          target_branch: targetBranch,
+          order_by: 'merged_at',
+          per_page: limit,
+        },
+      }),
+    );
+    return (data as MergedMergeRequestData[])
+      .filter((mr) => mr.merge_commit_sha || mr.squash_commit_sha)
+      .map((mr) => ({
+        iid: String(mr.iid),
+        title: mr.title,
+        authorName: mr.author?.name ?? '',
+        mergedCommitSha: (mr.merge_commit_sha ?? mr.squash_commit_sha)!,
+        webUrl: mr.web_url,
+      }));
+  }
+
+  async branchExists(
+    projectExternalId: string,
+    branch: string,
+  ): Promise<boolean> {
+    try {
+      await retryRest(() =>
+        this.axiosClient.get(
+          `/projects/${projectExternalId}/repository/branches/${encodeURIComponent(branch)}`,
+        ),
+      );
+      return true;
+    } catch (error: unknown) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // SHA of the branch's latest commit
+  async getBranchHead(
+    projectExternalId: string,
+    branch: string,
+  ): Promise<string> {
+    const { data } = await retryRest(() =>
+      this.axiosClient.get(
+        `/projects/${projectExternalId}/repository/branches/${encodeURIComponent(branch)}`,
+      ),
+    );
+    return (data as { commit: { id: string } }).commit.id;
+  }
+
+  async createBranch(
+    projectExternalId: string,
+    branch: string,
+    ref: string,
+  ): Promise<void> {
+    await this.axiosClient.post(
+      `/projects/${projectExternalId}/repository/branches`,
+      null,
+      { params: { branch, ref } },
+    );
+  }
+
+  async deleteBranch(projectExternalId: string, branch: string): Promise<void> {
+    await retryRest(() =>
+      this.axiosClient.delete(
+        `/projects/${projectExternalId}/repository/branches/${encodeURIComponent(branch)}`,
+      ),
+    );
+  }
+
+  // Cherry-picks are not idempotent and are never retried. GitLab answers a
+  // conflicting or already-applied pick with a 400 carrying an error_code.
+  async cherryPickCommit(
+    projectExternalId: string,
+    sha: string,
+    branch: string,
+  ): Promise<CommitSummary> {
+    try {
+      const { data } = await this.axiosClient.post(
+        `/projects/${projectExternalId}/repository/commits/${sha}/cherry_pick`,
+        { branch },
+      );
+      return toCommitSummary(data);
+    } catch (error: unknown) {
+      if (axios.isAxiosError(error) && error.response?.status === 400) {
+        const errorCode = error.response.data?.error_code;
+        if (errorCode === 'empty') throw new Error('CHERRY_PICK_EMPTY');
+        if (errorCode === 'conflict') throw new Error('CHERRY_PICK_CONFLICT');
+      }
+      throw error;
+    }
+  }
+
+  async listTags(
+    projectExternalId: string,
+    search?: string,
+  ): Promise<GitlabTag[]> {
+    const { data } = await retryRest(() =>
+      this.axiosClient.get(`/projects/${projectExternalId}/repository/tags`, {
+        params: { search, per_page: 100, order_by: 'updated' },
+      }),
+    );
+    return (
+      data as { name: string; commit: { id: string }; release: unknown }[]
+    ).map((t) => ({
+      name: t.name,
+      commitSha: t.commit.id,
+      hasRelease: t.release != null,
+    }));
+  }
+
+  // Not retried: a second attempt would fail on the tag the first created
+  async createTag(
+    projectExternalId: string,
+    tagName: string,
+    ref: string,
+    message?: string,
+  ): Promise<void> {
+    try {
+      await this.axiosClient.post(
+        `/projects/${projectExternalId}/repository/tags`,
+        { tag_name: tagName, ref, message },
+      );
+    } catch (error: unknown) {
+      if (
+        axios.isAxiosError(error) &&
+        error.response?.status === 400 &&
+        /already exists/i.test(String(error.response.data?.message))
+      ) {
+        throw new Error('TAG_ALREADY_EXISTS');
+      }
+      throw error;
+    }
+  }
+
+  async createRelease(
+    projectExternalId: string,
+    projectFullPath: string,
+    tagName: string,
+    description: string,
+  ): Promise<string> {
+    try {
+      await this.axiosClient.post(`/projects/${projectExternalId}/releases`, {
+        tag_name: tagName,
+        name: tagName,
+        description,
+      });
+    } catch (error: unknown) {
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        throw new Error('RELEASE_ALREADY_EXISTS');
+      }
+      throw error;
+    }
+    return `${this.gitlabUrl}/${projectFullPath}/-/releases/${encodeURIComponent(tagName)}`;
+  }
+
+  async findUserId(username: string): Promise<number | undefined> {
+    const { data } = await retryRest(() =>
+      this.axiosClient.get('/users', { params: { username } }),
+    );
+    return data[0]?.id;
+  }
+
+  async findMilestoneId(
+    projectExternalId: string,
+    title: string,
+  ): Promise<number | undefined> {
+    const { data } = await retryRest(() =>
+      this.axiosClient.get(`/projects/${projectExternalId}/milestones`, {
+        params: { title, include_ancestors: true },
+      }),
+    );
+    return data[0]?.id;
+  }
+
+  // Not retried: a merge that timed out may still have gone through
+  async mergeMergeRequest(
+    projectExternalId: string,
+    mrIid: string,
+    squash?: boolean,
+  ): Promise<void> {
+    try {
+      await this.axiosClient.put(
+        `/projects/${projectExternalId}/merge_requests/${mrIid}/merge`,
+        { squash },
+      );
+    } catch (error: unknown) {
+      if (axios.isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(String(error.response.data.message));
+      }
+      throw error;
+    }
+  }
+
+  // Asks GitLab to merge the MR once its pipeline succeeds. A freshly created
+  // MR is briefly unmergeable while GitLab checks it, so those responses are
+  // retried as well.
+  async setAutoMerge(
+    projectExternalId: string,
+    mrIid: string,
+    settings: AutoMergeSettings,
+  ): Promise<void> {
+    await withRetry(
+      () =>
+        this.axiosClient.put(
+          `/projects/${projectExternalId}/merge_requests/${mrIid}/merge`,
+          {
+            merge_when_pipeline_succeeds: true,
+            squash: settings.squash,
+            should_remove_source_branch: settings.removeSourceBranch,
+          },
+        ),
+      (outcome) => {
+        if (!('error' in outcome)) return null;
+        const { error } = outcome;
+        if (
+          axios.isAxiosError(error) &&
+          MERGE_NOT_READY_STATUSES.has(error.response?.status ?? 0)
+        ) {
+          return {};
+        }
+        return getRestFailure(error);
+      },
+      { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 1000 },
+    ).catch((error: unknown) => {
+      if (axios.isAxiosError(error) && error.response?.data?.message) {
+        throw new Error(String(error.response.data.message));
+      }
+      throw error;
+    });
+  }
+
   async getOpenMergeRequests(
     projectFullPath: string,
     sourceBranch: string,
     targetBranch: string,
-  ): Promise<{ id: string; iid: string; webUrl: string; state: string }[]> {
-    const { data } = await this.gqlClient
-      .query(getProjectOpenedMergeRequestBySourceAndTarget, {
-        fullPath: projectFullPath,
-        sourceBranches: [sourceBranch],
-        targetBranches: [targetBranch],
-      })
-      .toPromise();
-
-    const edges = data?.project?.mergeRequests?.edges || [];
+  ): Promise<OpenMergeRequestData[]> {
+    const { data } = await retryGraphql(() =>
+      this.gqlClient
+        .query(getProjectOpenedMergeRequestBySourceAndTarget, {
+          fullPath: projectFullPath,
+          sourceBranches: [sourceBranch],
+          targetBranches: [targetBranch],
+        })
+        .toPromise(),
+    );
+
+    const edges: { node: OpenMergeRequestNode | null }[] =
+      data?.project?.mergeRequests?.edges || [];
     return edges
-      .filter((e: { node: unknown }) => e.node)
-      .map(
-        (e: {
-          node: { id: string; iid: string; webUrl: string; state: string };
-        }) => e.node,
+      .map((e) => e.node)
+      .filter((node): node is OpenMergeRequestNode => node !== null)
+      .map(toOpenMergeRequestData);
+  }
+
+  // Open MRs between any of the given branches for up to
+  // MAX_PROJECTS_PER_QUERY projects in one request, keyed by project
+  // fullPath. Projects that don't exist or aren't visible are left out.
+  async getOpenMergeRequestsForProjects(
+    projectFullPaths: string[],
+    sourceBranches: string[],
+    targetBranches: string[],
+  ): Promise<Map<string, OpenMergeRequestData[]>> {
+    if (projectFullPaths.length > MAX_PROJECTS_PER_QUERY) {
+      throw new Error(
+        `At most ${MAX_PROJECTS_PER_QUERY} projects can be queried at once`,
+      );
+    }
+
+    const { data, error } = await retryGraphql(() =>
+      this.gqlClient
+        .query(getOpenMergeRequestsForProjects, {
+          fullPaths: projectFullPaths,
+          first: projectFullPaths.length,
+          sourceBranches,
+          targetBranches,
+        })
+        .toPromise(),
+    );
+    if (error) throw new Error(`Failed to fetch open MRs: ${error.message}`);
+
+    const projects: {
+      fullPath: string;
+      mergeRequests?: OpenMergeRequestConnection | null;
+    }[] = data?.projects?.nodes || [];
+
+    const result = new Map<string, OpenMergeRequestData[]>();
+    for (const project of projects) {
+      const nodes = project.mergeRequests?.nodes ?? [];
+      let pageInfo = project.mergeRequests?.pageInfo;
+      // Only the first page of each project comes with the batched query
+      while (pageInfo?.hasNextPage) {
+        const page = await this.getOpenMergeRequestsPage(
+          project.fullPath,
+          sourceBranches,
+          targetBranches,
+          pageInfo.endCursor,
+        );
+        nodes.push(...page.nodes);
+        pageInfo = page.pageInfo;
+      }
+      result.set(
+        project.fullPath,
+        nodes
+          .filter((node): node is OpenMergeRequestNode => node !== null)
+          .map(toOpenMergeRequestData),
+      );
+    }
+    return result;
+  }
+
+  private async getOpenMergeRequestsPage(
+    fullPath: string,
+    sourceBranches: string[],
+    targetBranches: string[],
+    after: string | null,
+  ): Promise<OpenMergeRequestConnection> {
+    const { data, error } = await retryGraphql(() =>
+      this.gqlClient
+        .query(getProjectOpenMergeRequestsPage, {
+          fullPath,
+          sourceBranches,
+          targetBranches,
+          after,
+        })
+        .toPromise(),
+    );
+    if (error) {
+      throw new Error(
+        `Failed to fetch open MRs of ${fullPath}: ${error.message}`,
       );
+    }
+    return data?.project?.mergeRequests ?? { nodes: [] };
   }
 }
 
-export function createGitlabClient(): GitlabClient {
-  const token = process.env.GITLAB_TOKEN;
+// The token env var wins over a token stored with `husgit auth login`
+export function createGitlabClient(
+  config: HusgitConfig = loadConfig(),
+): GitlabClient {
+  const tokenEnv = getTokenEnv(config);
+  const gitlabUrl = getGitlabUrl(config);
+  const token = process.env[tokenEnv] || loadStoredToken(gitlabUrl);
   if (!token) {
     throw new Error(
-      'GITLAB_TOKEN environment variable is required. Set it with:\n  export GITLAB_TOKEN=your-token',
+      `No GitLab token for ${getHost(gitlabUrl)}. Log in with "husgit auth login" or set it with:\n  export ${tokenEnv}=your-token`,
     );
   }
-  const url = process.env.GITLAB_URL || 'https://gitlab.com';
-  return new GitlabClient(token, url);
+  return new GitlabClient(token, gitlabUrl);
 }
@@ -53,8 +53,108 @@ export const getProjectOpenedMergeRequestBySourceAndTarget = gql`
           node {
             id
             iid
+            title
             webUrl
             state
+            sourceBranch
+            targetBranch
+            detailedMergeStatus
+            headPipeline {
+              status
+            }
+            approvedBy {
+              nodes {
+                id
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Open MRs of many projects at once. The branch filters are the union over
+// all projects, so callers match source/target pairs themselves.
+export const getOpenMergeRequestsForProjects = gql`
+  query getOpenMergeRequestsForProjects(
+    $fullPaths: [String!]
+    $first: Int
+    $sourceBranches: [String!]
+    $targetBranches: [String!]
+  ) {
+    projects(fullPaths: $fullPaths, first: $first) {
+      nodes {
+        fullPath
+        mergeRequests(
+          sourceBranches: $sourceBranches
+          targetBranches: $targetBranches
+          state: opened
+          first: 100
+        ) {
+          pageInfo {
+            endCursor
+            hasNextPage
+          }
+          nodes {
+            id
+            iid
+            webUrl
+            state
+            sourceBranch
+            targetBranch
+            detailedMergeStatus
+            headPipeline {
+              status
+            }
+            approvedBy {
+              nodes {
+                id
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Further pages of one project's open MRs, for projects that have more
+// than `getOpenMergeRequestsForProjects` returns
+export const getProjectOpenMergeRequestsPage = gql`
+  query getProjectOpenMergeRequestsPage(
+    $fullPath: ID!
+    $sourceBranches: [String!]
+    $targetBranches: [String!]
+    $after: String
+  ) {
+    project(fullPath: $fullPath) {
+      mergeRequests(
+        sourceBranches: $sourceBranches
+        targetBranches: $targetBranches
+        state: opened
+        first: 100
+        after: $after
+      ) {
+        pageInfo {
+          endCursor
+          hasNextPage
+        }
+        nodes {
+          id
+          iid
+          webUrl
+          state
+          sourceBranch
+          targetBranch
+          detailedMergeStatus
+          headPipeline {
+            status
+          }
+          approvedBy {
+            nodes {
+              id
+            }
           }
         }
       }
@@ -67,9 +167,15 @@ export const updateProjectMergeRequest = gql`
     $fullPath: ID!
     $iid: String!
     $title: String
+    $description: String
   ) {
     mergeRequestUpdate(
-      input: { projectPath: $fullPath, iid: $iid, title: $title }
+      input: {
+        projectPath: $fullPath
+        iid: $iid
+        title: $title
+        description: $description
+      }
     ) {
       mergeRequest {
         id
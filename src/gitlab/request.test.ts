@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AxiosError, AxiosHeaders, type AxiosResponse } from 'axios';
+import { getRestFailure, getRetryAfterMs } from './request.js';
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+function headers(values: Record<string, string>) {
+  return (name: string) => values[name];
+}
+
+function httpError(status: number, values: Record<string, string> = {}) {
+  return new AxiosError('Request failed', 'ERR_BAD_RESPONSE', undefined, {}, {
+    status,
+    headers: values,
+    config: { headers: new AxiosHeaders() },
+  } as AxiosResponse);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getRetryAfterMs', () => {
+  it('reads Retry-After in seconds', () => {
+    expect(getRetryAfterMs(429, headers({ 'retry-after': '30' }))).toBe(30_000);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    expect(
+      getRetryAfterMs(
+        429,
+        headers({ 'retry-after': 'Thu, 01 Jan 2026 12:00:10 GMT' }),
+      ),
+    ).toBe(10_000);
+  });
+
+  it('falls back to RateLimit-Reset', () => {
+    expect(
+      getRetryAfterMs(
+        429,
+        headers({ 'ratelimit-reset': String(NOW / 1000 + 5) }),
+      ),
+    ).toBe(5_000);
+  });
+
+  it('never returns a negative delay', () => {
+    expect(
+      getRetryAfterMs(
+        429,
+        headers({ 'ratelimit-reset': String(NOW / 1000 - 5) }),
+      ),
+    ).toBe(0);
+  });
+
+  it('returns undefined without usable headers', () => {
+    expect(getRetryAfterMs(429, headers({}))).toBeUndefined();
+    expect(
+      getRetryAfterMs(429, headers({ 'retry-after': 'soon' })),
+    ).toBeUndefined();
+  });
+
+  it.each([500, 502, 503, 504])('ignores the headers on a %i', (status) => {
+    expect(
+      getRetryAfterMs(
+        status,
+        headers({
+          'retry-after': '30',
+          'ratelimit-reset': String(NOW / 1000 + 5),
+        }),
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe('getRestFailure', () => {
+  it('retries a 429 after the delay the server asks for', () => {
+    expect(getRestFailure(httpError(429, { 'retry-after': '3' }))).toEqual({
+      retryAfterMs: 3_000,
+    });
+  });
+
+  it('backs off on a 5xx even with rate limit headers', () => {
+    expect(
+      getRestFailure(
+        httpError(502, { 'ratelimit-reset': String(NOW / 1000 + 60) }),
+      ),
+    ).toEqual({ retryAfterMs: undefined });
+  });
+
+  it('does not retry other client errors', () => {
+    expect(getRestFailure(httpError(404))).toBeNull();
+  });
+
+  it('retries errors without a response', () => {
+    expect(
+      getRestFailure(new AxiosError('socket hang up', 'ECONNRESET')),
+    ).toEqual({});
+  });
+});
@@ -0,0 +1,154 @@
+import type { CombinedError, OperationResult } from '@urql/core';
+import axios from 'axios';
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 60_000,
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface RetryableFailure {
+  // Delay requested by a 429 response through Retry-After / RateLimit-Reset
+  retryAfterMs?: number;
+}
+
+type Outcome<T> = { result: T } | { error: unknown };
+
+type HeaderGetter = (name: string) => string | null | undefined;
+
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  getFailure: (outcome: Outcome<T>) => RetryableFailure | null,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    let outcome: Outcome<T>;
+    try {
+      outcome = { result: await operation() };
+    } catch (error) {
+      outcome = { error };
+    }
+
+    const failure = getFailure(outcome);
+    if (!failure || attempt >= options.retries) {
+      if ('error' in outcome) throw outcome.error;
+      return outcome.result;
+    }
+
+    await sleep(retryDelay(attempt, failure, options));
+  }
+}
+
+// Retries a REST call that threw a transient axios error.
+export function retryRest<T>(
+  operation: () => Promise<T>,
+  options?: RetryOptions,
+): Promise<T> {
+  return withRetry(
+    operation,
+    (outcome) => ('error' in outcome ? getRestFailure(outcome.error) : null),
+    options,
+  );
+}
+
+// Retries a GraphQL operation whose result carries a transient network error.
+// urql reports failures on the result instead of throwing, so the final
+// result (successful or not) is returned for the caller to inspect.
+export function retryGraphql<T extends OperationResult>(
+  operation: () => Promise<T>,
+  options?: RetryOptions,
+): Promise<T> {
+  return withRetry(
+    operation,
+    (outcome) => {
+      if ('error' in outcome) return getRestFailure(outcome.error);
+      return outcome.result.error
+        ? getGraphqlFailure(outcome.result.error)
+        : null;
+    },
+    options,
+  );
+}
+
+export function getRestFailure(error: unknown): RetryableFailure | null {
+  if (!axios.isAxiosError(error)) return null;
+  if (error.code === 'ERR_CANCELED') return null;
+
+  // No response at all: connection reset, DNS hiccup, timeout
+  if (!error.response) return {};
+
+  if (!RETRYABLE_STATUSES.has(error.response.status)) return null;
+
+  const headers = error.response.headers;
+  return {
+    retryAfterMs: getRetryAfterMs(
+      error.response.status,
+      (name) => headers[name] as string,
+    ),
+  };
+}
+
+function getGraphqlFailure(error: CombinedError): RetryableFailure | null {
+  const response = error.response as Response | undefined;
+
+  if (response && typeof response.status === 'number') {
+    if (!RETRYABLE_STATUSES.has(response.status)) return null;
+    return {
+      retryAfterMs: getRetryAfterMs(response.status, (name) =>
+        response.headers?.get(name),
+      ),
+    };
+  }
+
+  // GraphQL validation/resolver errors are not transient
+  return error.networkError ? {} : null;
+}
+
+// Only rate limiting is waited out as asked: GitLab sends RateLimit-* headers
+// on every response, so on a 5xx they would say nothing about the failure.
+// Those use the exponential backoff instead.
+export function getRetryAfterMs(
+  status: number,
+  getHeader: HeaderGetter,
+): number | undefined {
+  if (status !== 429) return undefined;
+
+  const retryAfter = getHeader('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  // GitLab sends RateLimit-Reset as a Unix timestamp in seconds
+  const reset = Number(getHeader('ratelimit-reset'));
+  if (reset > 0) return Math.max(0, reset * 1000 - Date.now());
+
+  return undefined;
+}
+
+function retryDelay(
+  attempt: number,
+  failure: RetryableFailure,
+  options: RetryOptions,
+): number {
+  if (failure.retryAfterMs !== undefined) {
+    return Math.min(failure.retryAfterMs, options.maxDelayMs);
+  }
+  const exponential = options.baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * options.baseDelayMs;
+  return Math.min(exponential + jitter, options.maxDelayMs);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
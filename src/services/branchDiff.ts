@@ -0,0 +1,74 @@
+import type { GitlabClient } from '../gitlab/client.js';
+import type { BranchPair, CommitSummary } from '../types.js';
+import {
+  DEFAULT_CONCURRENCY,
+  mapWithConcurrency,
+  type ProgressCallback,
+} from './concurrency.js';
+import {
+  isMergeCommit,
+  listMergedRequests,
+  type MergedRequestRef,
+} from './descriptions.js';
+
+export interface BranchDiff {
+  pair: BranchPair;
+  // Commits on the source branch that the target branch lacks, and vice versa
+  ahead: CommitSummary[];
+  behind: CommitSummary[];
+  mergedRequests: MergedRequestRef[];
+  filesChanged: number;
+  error?: string;
+}
+
+// Non-merge commits, i.e. the actual changes
+export function listChangeCommits(diff: BranchDiff): CommitSummary[] {
+  return diff.ahead.filter((c) => !isMergeCommit(c));
+}
+
+export async function diffBranchPairs(
+  client: GitlabClient,
+  pairs: BranchPair[],
+  options: { concurrency?: number; onProgress?: ProgressCallback } = {},
+): Promise<BranchDiff[]> {
+  const gitlabUrl = client.getGitlabUrl();
+
+  return mapWithConcurrency(
+    pairs,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (pair): Promise<BranchDiff> => {
+      const { project, sourceBranch, targetBranch } = pair;
+      try {
+        const [aheadComparison, behindComparison] = await Promise.all([
+          client.compareBranches(
+            project.externalId,
+            targetBranch,
+            sourceBranch,
+          ),
+          client.compareBranches(
+            project.externalId,
+            sourceBranch,
+            targetBranch,
+          ),
+        ]);
+        return {
+          pair,
+          ahead: aheadComparison.commits,
+          behind: behindComparison.commits,
+          mergedRequests: listMergedRequests(aheadComparison, gitlabUrl),
+          filesChanged: aheadComparison.filesChanged ?? 0,
+        };
+      } catch (error: unknown) {
+        return {
+          pair,
+          ahead: [],
+          behind: [],
+          mergedRequests: [],
+          filesChanged: 0,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+    options.onProgress,
+  );
+}
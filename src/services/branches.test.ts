@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { GitlabClient } from '../gitlab/client.js';
+import type { HusgitConfig, ProjectConfig } from '../types.js';
+import { checkBranches, createMissingBranches } from './branches.js';
+
+const config = {
+  environments: [
+    { name: 'dev', order: 0 },
+    { name: 'staging', order: 1 },
+    { name: 'prod', order: 2 },
+  ],
+} as unknown as HusgitConfig;
+
+const project: ProjectConfig = {
+  externalId: '1',
+  name: 'api',
+  fullPath: 'acme/api',
+  branchMap: { dev: 'develop', staging: 'staging', prod: 'main' },
+};
+
+// Only `develop` exists until branches get created
+function client(failing: string[] = []) {
+  const branches = new Set(['develop']);
+  const createBranch = vi.fn(
+    async (_id: string, branch: string, ref: string) => {
+      const known = branches.has(ref);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (!known) throw new Error(`Invalid reference ${ref}`);
+      if (failing.includes(branch)) throw new Error('Forbidden');
+      branches.add(branch);
+    },
+  );
+  return {
+    branchExists: vi.fn(async (_id: string, branch: string) =>
+      branches.has(branch),
+    ),
+    createBranch,
+  } as unknown as GitlabClient & { createBranch: typeof createBranch };
+}
+
+const targets = ['dev', 'staging', 'prod'].map((env) => ({ project, env }));
+
+describe('checkBranches', () => {
+  it('reports missing branches with the branch they are created from', async () => {
+    const checks = await checkBranches(client(), config, targets);
+
+    expect(checks.map((c) => [c.branch, c.status, c.fromBranch])).toEqual([
+      ['develop', 'exists', undefined],
+      ['staging', 'missing', 'develop'],
+      ['main', 'missing', 'staging'],
+    ]);
+  });
+});
+
+describe('createMissingBranches', () => {
+  it("creates a project's branches in environment order", async () => {
+    const gitlab = client();
+    const checks = await checkBranches(gitlab, config, targets);
+
+    const creations = await createMissingBranches(gitlab, checks, {
+      concurrency: 4,
+    });
+
+    expect(creations.map((c) => [c.check.branch, c.status])).toEqual([
+      ['staging', 'created'],
+      ['main', 'created'],
+    ]);
+    expect(gitlab.createBranch.mock.calls.map((call) => call[1])).toEqual([
+      'staging',
+      'main',
+    ]);
+  });
+
+  it('skips branches whose preceding branch could not be created', async () => {
+    const gitlab = client(['staging']);
+    const checks = await checkBranches(gitlab, config, targets);
+
+    const creations = await createMissingBranches(gitlab, checks);
+
+    expect(creations.map((c) => [c.check.branch, c.status, c.error])).toEqual([
+      ['staging', 'failed', 'Forbidden'],
+      ['main', 'failed', 'staging (staging) was not created'],
+    ]);
+    expect(gitlab.createBranch).toHaveBeenCalledTimes(1);
+  });
+});
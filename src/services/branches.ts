@@ -0,0 +1,141 @@
+import { getPreviousEnvironment } from '../config/manager.js';
+import type { GitlabClient } from '../gitlab/client.js';
+import type { HusgitConfig, ProjectConfig } from '../types.js';
+import {
+  DEFAULT_CONCURRENCY,
+  mapWithConcurrency,
+  type ProgressCallback,
+} from './concurrency.js';
+
+export interface BranchTarget {
+  project: ProjectConfig;
+  env: string;
+}
+
+export interface BranchCheck {
+  project: ProjectConfig;
+  env: string;
+  branch: string;
+  status: 'exists' | 'missing' | 'unmapped' | 'failed';
+  // Branch of the preceding environment a missing branch is created from
+  fromEnv?: string;
+  fromBranch?: string;
+  error?: string;
+}
+
+export interface BranchCreation {
+  check: BranchCheck;
+  status: 'created' | 'failed';
+  error?: string;
+}
+
+interface BranchOptions {
+  concurrency?: number;
+  onProgress?: ProgressCallback;
+}
+
+export function canCreate(check: BranchCheck): boolean {
+  return check.status === 'missing' && check.fromBranch !== undefined;
+}
+
+export async function checkBranches(
+  client: GitlabClient,
+  config: HusgitConfig,
+  targets: BranchTarget[],
+  options: BranchOptions = {},
+): Promise<BranchCheck[]> {
+  return mapWithConcurrency(
+    targets,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async ({ project, env }): Promise<BranchCheck> => {
+      const branch = project.branchMap[env];
+      if (!branch) {
+        return { project, env, branch: '', status: 'unmapped' };
+      }
+
+      const previous = getPreviousEnvironment(config, env);
+      const fromBranch = previous
+        ? project.branchMap[previous.name]
+        : undefined;
+      const base = {
+        project,
+        env,
+        branch,
+        ...(previous && fromBranch && { fromEnv: previous.name, fromBranch }),
+      };
+
+      try {
+        const exists = await client.branchExists(project.externalId, branch);
+        return { ...base, status: exists ? 'exists' : 'missing' };
+      } catch (error: unknown) {
+        return {
+          ...base,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+    options.onProgress,
+  );
+}
+
+// Creates each missing branch from the preceding environment's branch.
+// Projects run in parallel, but the branches of one project are created in
+// the order of `checks` (environment order), so a branch whose preceding
+// branch was missing too is only created once that one exists.
+export async function createMissingBranches(
+  client: GitlabClient,
+  checks: BranchCheck[],
+  options: BranchOptions = {},
+): Promise<BranchCreation[]> {
+  const creatable = checks.filter(canCreate);
+  const byProject = new Map<string, BranchCheck[]>();
+  for (const check of creatable) {
+    const key = check.project.fullPath;
+    byProject.set(key, [...(byProject.get(key) ?? []), check]);
+  }
+
+  const creations = new Map<BranchCheck, BranchCreation>();
+  let done = 0;
+  await mapWithConcurrency(
+    Array.from(byProject.values()),
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (projectChecks) => {
+      const notCreated = new Set<string>();
+      for (const check of projectChecks) {
+        const creation = notCreated.has(check.fromBranch!)
+          ? {
+              check,
+              status: 'failed' as const,
+              error: `${check.fromBranch} (${check.fromEnv}) was not created`,
+            }
+          : await createBranch(client, check);
+        if (creation.status === 'failed') notCreated.add(check.branch);
+        creations.set(check, creation);
+        options.onProgress?.(++done, creatable.length);
+      }
+    },
+  );
+
+  return creatable.map((check) => creations.get(check)!);
+}
+
+async function createBranch(
+  client: GitlabClient,
+  check: BranchCheck,
+): Promise<BranchCreation> {
+  try {
+    await client.createBranch(
+      check.project.externalId,
+      check.branch,
+      check.fromBranch!,
+    );
+    return { check, status: 'created' };
+  } catch (error: unknown) {
+    return {
+      check,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import type { GitlabClient } from '../gitlab/client.js';
+import type {
+  BranchPair,
+  CommitSummary,
+  MergeRequestResult,
+  ProjectConfig,
+} from '../types.js';
+import {
+  DEFAULT_CONCURRENCY,
+  mapWithConcurrency,
+  type ProgressCallback,
+} from './concurrency.js';
+
+export interface CherryPick {
+  sha: string;
+  // Human-readable origin, e.g. "!42 Fix login" or a short SHA
+  label: string;
+}
+
+export interface CherryPickPlan {
+  project: ProjectConfig;
+  sourceBranch: string;
+  targetBranch: string;
+  picks: CherryPick[];
+}
+
+// Either a branch ready to be proposed as an MR, or the final outcome for
+// projects whose picks could not be applied.
+export type PreparedCherryPick =
+  | { pair: BranchPair; result?: undefined }
+  | { pair?: undefined; result: MergeRequestResult };
+
+// Looks up merged MRs by iid and returns the commits that landed them on
+// `sourceBranch`. Throws if an MR is unknown or was not merged there.
+export async function resolveMergeRequestPicks(
+  client: GitlabClient,
+  project: ProjectConfig,
+  sourceBranch: string,
+  iids: string[],
+): Promise<CherryPick[]> {
+  const picks: CherryPick[] = [];
+  for (const iid of iids) {
+    const mr = await client.getMergeRequest(project.externalId, iid);
+    if (mr.state !== 'merged' || mr.targetBranch !== sourceBranch) {
+      throw new Error(`!${iid} is not merged into ${sourceBranch}`);
+    }
+    if (!mr.mergedCommitSha) {
+      throw new Error(`!${iid} has no merge or squash commit to cherry-pick`);
+    }
+    picks.push({ sha: mr.mergedCommitSha, label: `!${iid} ${mr.title}` });
+  }
+  return picks;
+}
+
+export function backportBranchName(targetEnvName: string, now: Date): string {
+  const stamp = now
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\..*$/, '')
+    .replace('T', '-');
+  return `husgit/backport-${targetEnvName}-${stamp}`;
+}
+
+// Creates `branch` off each plan's target branch and cherry-picks the plan's
+// commits onto it. The source branch is only ever read. On a conflict or
+// failure the new branch is deleted again.
+export async function prepareCherryPickBranches(
+  client: GitlabClient,
+  plans: CherryPickPlan[],
+  branch: string,
+  options: { concurrency?: number; onProgress?: ProgressCallback } = {},
+): Promise<PreparedCherryPick[]> {
+  return mapWithConcurrency(
+    plans,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    (plan) => prepareCherryPickBranch(client, plan, branch),
+    options.onProgress,
+  );
+}
+
+async function prepareCherryPickBranch(
+  client: GitlabClient,
+  plan: CherryPickPlan,
+  branch: string,
+): Promise<PreparedCherryPick> {
+  const base = {
+    project: plan.project,
+    sourceBranch: branch,
+    targetBranch: plan.targetBranch,
+  };
+
+  try {
+    await client.createBranch(
+      plan.project.externalId,
+      branch,
+      plan.targetBranch,
+    );
+  } catch (error: unknown) {
+    return {
+      result: {
+        ...base,
+        status: 'failed',
+        error: `Could not create ${branch}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      },
+    };
+  }
+
+  const commits: CommitSummary[] = [];
+  for (const pick of plan.picks) {
+    try {
+      commits.push(
+        await client.cherryPickCommit(
+          plan.project.externalId,
+          pick.sha,
+          branch,
+        ),
+      );
+    } catch (error: unknown) {
+      // Already present on the target: nothing to pick
+      if (error instanceof Error && error.message === 'CHERRY_PICK_EMPTY') {
+        continue;
+      }
+
+      await client
+        .deleteBranch(plan.project.externalId, branch)
+        .catch(() => undefined);
+
+      if (error instanceof Error && error.message === 'CHERRY_PICK_CONFLICT') {
+        return {
+          result: {
+            ...base,
+            status: 'conflict',
+            error: `${pick.label} conflicts with ${plan.targetBranch}`,
+          },
+        };
+      }
+      return {
+        result: {
+          ...base,
+          status: 'failed',
+          error: `Cherry-pick of ${pick.label} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      };
+    }
+  }
+
+  if (commits.length === 0) {
+    await client
+      .deleteBranch(plan.project.externalId, branch)
+      .catch(() => undefined);
+    return { result: { ...base, status: 'skipped' } };
+  }
+
+  return {
+    pair: {
+      ...base,
+      comparison: { commits },
+    },
+  };
+}
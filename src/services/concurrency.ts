@@ -0,0 +1,30 @@
+export const DEFAULT_CONCURRENCY = 4;
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+// Runs `worker` over `items` with at most `limit` calls in flight. Results are
+// returned in the order of `items`, regardless of completion order.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onProgress?: ProgressCallback,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let done = 0;
+
+  async function runWorker(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+      done++;
+      onProgress?.(done, items.length);
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+
+  return results;
+}
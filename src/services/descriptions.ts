@@ -0,0 +1,97 @@
+import type { BranchComparison, CommitSummary } from '../types.js';
+
+const MAX_LISTED_COMMITS = 100;
+
+export interface MergedRequestRef {
+  projectPath: string;
+  iid: string;
+  title: string;
+  authorName: string;
+  webUrl: string;
+}
+
+// GitLab's default merge commit message ends with
+// "See merge request group/project!123"; the MR title is the first paragraph
+// after the "Merge branch ..." subject line.
+export function parseMergedRequest(
+  commit: CommitSummary,
+  gitlabUrl: string,
+): MergedRequestRef | undefined {
+  const match = commit.message.match(/See merge request ([\w./-]+)!(\d+)/);
+  if (!match) return undefined;
+
+  const [, projectPath, iid] = match;
+  const paragraphs = commit.message
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  return {
+    projectPath,
+    iid,
+    title:
+      paragraphs[1] && !paragraphs[1].startsWith('See merge request')
+        ? paragraphs[1].split('\n')[0]
+        : commit.title,
+    authorName: commit.authorName,
+    webUrl: `${gitlabUrl}/${projectPath}/-/merge_requests/${iid}`,
+  };
+}
+
+export function isMergeCommit(commit: CommitSummary): boolean {
+  return commit.parentIds.length > 1;
+}
+
+export function listMergedRequests(
+  comparison: BranchComparison,
+  gitlabUrl: string,
+): MergedRequestRef[] {
+  return comparison.commits
+    .map((c) => parseMergedRequest(c, gitlabUrl))
+    .filter((mr): mr is MergedRequestRef => mr !== undefined);
+}
+
+// Renders the content of a promotion as markdown: the merged MRs it brings
+// in, followed by the individual (non-merge) commits.
+export function buildPromotionDescription(
+  comparison: BranchComparison,
+  gitlabUrl: string,
+): string {
+  const mergedRequests = listMergedRequests(comparison, gitlabUrl);
+  const commits = comparison.commits.filter((c) => !isMergeCommit(c));
+  const sections: string[] = [];
+
+  if (mergedRequests.length > 0) {
+    sections.push(
+      [
+        '### Merge requests',
+        '',
+        ...mergedRequests.map(
+          (mr) => `- [!${mr.iid}](${mr.webUrl}) ${mr.title} (${mr.authorName})`,
+        ),
+      ].join('\n'),
+    );
+  }
+
+  if (commits.length > 0) {
+    const listed = commits.slice(0, MAX_LISTED_COMMITS);
+    const lines = listed.map(
+      (c) => `- [\`${c.shortId}\`](${c.webUrl}) ${c.title} (${c.authorName})`,
+    );
+    if (commits.length > listed.length) {
+      lines.push(`- …and ${commits.length - listed.length} more`);
+    }
+    sections.push([`### Commits (${commits.length})`, '', ...lines].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+export function composeDescription(
+  userDescription: string | undefined,
+  generated: string,
+): string {
+  if (!userDescription) return generated;
+  if (!generated) return userDescription;
+  return `${userDescription}\n\n${generated}`;
+}
@@ -0,0 +1,273 @@
+import type { GitlabClient } from '../gitlab/client.js';
+import type { HusgitConfig, ProjectConfig } from '../types.js';
+import {
+  DEFAULT_CONCURRENCY,
+  mapWithConcurrency,
+  type ProgressCallback,
+} from './concurrency.js';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  // What was checked: "token", "environments" or a project fullPath
+  subject: string;
+  check: string;
+  status: CheckStatus;
+  message: string;
+  // Command that fixes a warning or failure
+  fix?: string;
+}
+
+// Creating MRs, branches and tags needs write access to the API
+const REQUIRED_SCOPE = 'api';
+const EXPIRY_WARNING_DAYS = 7;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function readdCommand(
+  project: ProjectConfig,
+  branchMap: Record<string, string>,
+): string {
+  return (
+    `husgit project remove ${project.fullPath} --force && ` +
+    `husgit project add --project-id ${project.externalId} --branch-map '${JSON.stringify(branchMap)}'`
+  );
+}
+
+export async function checkToken(
+  client: GitlabClient,
+  tokenEnv: string,
+  now: Date = new Date(),
+): Promise<DoctorCheck[]> {
+  const tokenFix = `export ${tokenEnv}=<token with the "${REQUIRED_SCOPE}" scope from ${client.getGitlabUrl()}/-/user_settings/personal_access_tokens>`;
+
+  let user: string;
+  try {
+    user = await client.checkCurrentUser();
+  } catch (error: unknown) {
+    return [
+      {
+        subject: 'token',
+        check: 'connectivity',
+        status: 'fail',
+        message: errorMessage(error),
+        fix: tokenFix,
+      },
+    ];
+  }
+  if (!user) {
+    return [
+      {
+        subject: 'token',
+        check: 'connectivity',
+        status: 'fail',
+        message: `${client.getGitlabUrl()} did not accept ${tokenEnv}`,
+        fix: tokenFix,
+      },
+    ];
+  }
+
+  const checks: DoctorCheck[] = [
+    {
+      subject: 'token',
+      check: 'connectivity',
+      status: 'pass',
+      message: `Authenticated to ${client.getGitlabUrl()} as ${user}`,
+    },
+  ];
+
+  try {
+    const token = await client.getCurrentToken();
+    checks.push(
+      token.scopes.includes(REQUIRED_SCOPE)
+        ? {
+            subject: 'token',
+            check: 'scopes',
+            status: 'pass',
+            message: `Scopes: ${token.scopes.join(', ')}`,
+          }
+        : {
+            subject: 'token',
+            check: 'scopes',
+            status: 'fail',
+            message: `Missing the "${REQUIRED_SCOPE}" scope (has: ${token.scopes.join(', ') || 'none'})`,
+            fix: tokenFix,
+          },
+    );
+
+    if (token.expiresAt) {
+      const days = Math.floor(
+        (new Date(token.expiresAt).getTime() - now.getTime()) / 86_400_000,
+      );
+      if (days <= EXPIRY_WARNING_DAYS) {
+        checks.push({
+          subject: 'token',
+          check: 'expiry',
+          status: 'warn',
+          message: `Expires on ${token.expiresAt}`,
+          fix: tokenFix,
+        });
+      }
+    }
+  } catch (error: unknown) {
+    // OAuth and CI job tokens can't be inspected; not fatal
+    checks.push({
+      subject: 'token',
+      check: 'scopes',
+      status: 'warn',
+      message: `Could not read token scopes: ${errorMessage(error)}`,
+    });
+  }
+
+  return checks;
+}
+
+// Static checks on the config itself: no GitLab access needed
+export function checkMappings(config: HusgitConfig): DoctorCheck[] {
+  if (config.environments.length === 0) {
+    return [
+      {
+        subject: 'environments',
+        check: 'flow',
+        status: 'fail',
+        message: 'No environments configured',
+        fix: 'husgit setup flow',
+      },
+    ];
+  }
+
+  const envNames = config.environments.map((e) => e.name);
+  const checks: DoctorCheck[] = [];
+
+  for (const project of Object.values(config.projects)) {
+    const missing = envNames.filter((env) => !project.branchMap[env]);
+    const unknown = Object.keys(project.branchMap).filter(
+      (env) => !envNames.includes(env),
+    );
+
+    if (missing.length === 0) {
+      checks.push({
+        subject: project.fullPath,
+        check: 'mapping',
+        status: 'pass',
+        message: `Mapped for all ${envNames.length} environments`,
+      });
+    } else {
+      const branchMap = { ...project.branchMap };
+      for (const env of missing) branchMap[env] = `<${env}-branch>`;
+      checks.push({
+        subject: project.fullPath,
+        check: 'mapping',
+        status: 'warn',
+        message: `No branch mapped for ${missing.join(', ')}`,
+        fix: readdCommand(project, branchMap),
+      });
+    }
+
+    if (unknown.length > 0) {
+      checks.push({
+        subject: project.fullPath,
+        check: 'mapping',
+        status: 'warn',
+        message: `Maps unknown environment${unknown.length !== 1 ? 's' : ''} ${unknown.join(', ')}`,
+      });
+    }
+  }
+
+  return checks;
+}
+
+// Checks that each project still resolves to its configured fullPath and
+// that every mapped branch exists.
+export async function checkProjects(
+  client: GitlabClient,
+  config: HusgitConfig,
+  options: { concurrency?: number; onProgress?: ProgressCallback } = {},
+): Promise<DoctorCheck[]> {
+  const envNames = new Set(config.environments.map((e) => e.name));
+
+  const perProject = await mapWithConcurrency(
+    Object.values(config.projects),
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (project): Promise<DoctorCheck[]> => {
+      const subject = project.fullPath;
+
+      try {
+        const remote = await client.getProjectById(project.externalId);
+        if (remote.fullPath !== project.fullPath) {
+          return [
+            {
+              subject,
+              check: 'project',
+              status: 'fail',
+              message: `Project ${project.externalId} is now ${remote.fullPath}`,
+              fix: readdCommand(project, project.branchMap),
+            },
+          ];
+        }
+      } catch (error: unknown) {
+        const notFound =
+          error instanceof Error && error.message === 'PROJECT_NOT_FOUND';
+        return [
+          {
+            subject,
+            check: 'project',
+            status: 'fail',
+            message: notFound
+              ? `Project ${project.externalId} not found or not accessible`
+              : errorMessage(error),
+            ...(notFound && {
+              fix: `husgit project remove ${project.fullPath} --force`,
+            }),
+          },
+        ];
+      }
+
+      const checks: DoctorCheck[] = [
+        {
+          subject,
+          check: 'project',
+          status: 'pass',
+          message: `Resolves to ${project.fullPath}`,
+        },
+      ];
+
+      for (const [env, branch] of Object.entries(project.branchMap)) {
+        if (!envNames.has(env)) continue;
+        try {
+          const exists = await client.branchExists(project.externalId, branch);
+          checks.push(
+            exists
+              ? {
+                  subject,
+                  check: 'branch',
+                  status: 'pass',
+                  message: `${branch} (${env}) exists`,
+                }
+              : {
+                  subject,
+                  check: 'branch',
+                  status: 'fail',
+                  message: `${branch} (${env}) does not exist`,
+                  fix: `husgit project ensure-branches ${env}`,
+                },
+          );
+        } catch (error: unknown) {
+          checks.push({
+            subject,
+            check: 'branch',
+            status: 'fail',
+            message: `Could not check ${branch} (${env}): ${errorMessage(error)}`,
+          });
+        }
+      }
+
+      return checks;
+    },
+    options.onProgress,
+  );
+
+  return perProject.flat();
+}
@@ -5,11 +5,25 @@ import type {
   MergeRequestResult,
 } from '../types.js';
 import {
+  getEnvironmentBranches,
   getEnvironmentByName,
   getNextEnvironment,
   getPreviousEnvironment,
 } from '../config/manager.js';
-import { GitlabClient } from '../gitlab/client.js';
+import {
+  GitlabClient,
+  type AutoMergeSettings,
+  type MergeRequestAttributes,
+} from '../gitlab/client.js';
+import {
+  DEFAULT_CONCURRENCY,
+  mapWithConcurrency,
+  type ProgressCallback,
+} from './concurrency.js';
+import {
+  buildPromotionDescription,
+  composeDescription,
+} from './descriptions.js';
 
 export function resolveBranchPairs(
   config: HusgitConfig,
@@ -52,70 +66,218 @@ export function resolveBranchPairs(
   return pairs;
 }
 
+export interface MergeRequestMetadata {
+  assigneeIds?: number[];
+  reviewerIds?: number[];
+  labels?: string[];
+  // Resolved per project, since milestones may live in different groups
+  milestoneTitle?: string;
+}
+
+export interface ExecutionOptions {
+  concurrency?: number;
+  onProgress?: ProgressCallback;
+  autoMerge?: AutoMergeSettings;
+  // Append a markdown summary of the promoted commits and MRs to each
+  // pair's description (requires pairs from compareBranchPairs)
+  generateDescription?: boolean;
+  metadata?: MergeRequestMetadata;
+}
+
+export async function resolveUserIds(
+  client: GitlabClient,
+  usernames: string[],
+): Promise<number[]> {
+  const ids = await Promise.all(
+    usernames.map((u) => client.findUserId(u.replace(/^@/, ''))),
+  );
+  const unknown = usernames.filter((_u, i) => ids[i] === undefined);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown GitLab user(s): ${unknown.join(', ')}`);
+  }
+  return ids as number[];
+}
+
+// Fetches, for each pair, the commits on the source branch that the target
+// branch lacks. Pairs whose comparison fails are left without one, so MR
+// creation is still attempted and reports its own error.
+export async function compareBranchPairs(
+  client: GitlabClient,
+  pairs: BranchPair[],
+  options: ExecutionOptions = {},
+): Promise<BranchPair[]> {
+  return mapWithConcurrency(
+    pairs,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (pair) => {
+      try {
+        const comparison = await client.compareBranches(
+          pair.project.externalId,
+          pair.targetBranch,
+          pair.sourceBranch,
+        );
+        return { ...pair, comparison };
+      } catch {
+        return pair;
+      }
+    },
+    options.onProgress,
+  );
+}
+
+// Pairs whose source branch would be deleted on merge despite being an
+// environment branch of some project.
+export function findProtectedSourceBranches(
+  config: HusgitConfig,
+  pairs: BranchPair[],
+): BranchPair[] {
+  const environmentBranches = getEnvironmentBranches(config);
+  return pairs.filter((p) => environmentBranches.has(p.sourceBranch));
+}
+
+export function isUpToDate(pair: BranchPair): boolean {
+  return pair.comparison !== undefined && pair.comparison.commits.length === 0;
+}
+
 export async function executeMergeRequests(
   client: GitlabClient,
   pairs: BranchPair[],
   title: string,
   description?: string,
+  options: ExecutionOptions = {},
 ): Promise<MergeRequestResult[]> {
-  const results: MergeRequestResult[] = [];
+  return mapWithConcurrency(
+    pairs,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (pair) => {
+      const pairDescription =
+        options.generateDescription && pair.comparison
+          ? composeDescription(
+              description,
+              buildPromotionDescription(pair.comparison, client.getGitlabUrl()),
+            )
+          : description;
+      const result = await executeMergeRequest(
+        client,
+        pair,
+        title,
+        pairDescription,
+        options.metadata,
+      );
+      if (options.autoMerge && result.mrIid) {
+        return enableAutoMerge(client, result, options.autoMerge);
+      }
+      return result;
+    },
+    options.onProgress,
+  );
+}
+
+async function enableAutoMerge(
+  client: GitlabClient,
+  result: MergeRequestResult,
+  settings: AutoMergeSettings,
+): Promise<MergeRequestResult> {
+  try {
+    await client.setAutoMerge(
+      result.project.externalId,
+      result.mrIid!,
+      settings,
+    );
+    return { ...result, autoMerge: 'enabled' };
+  } catch (error: unknown) {
+    return {
+      ...result,
+      autoMerge: 'failed',
+      autoMergeError: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+async function executeMergeRequest(
+  client: GitlabClient,
+  pair: BranchPair,
+  title: string,
+  description?: string,
+  metadata: MergeRequestMetadata = {},
+): Promise<MergeRequestResult> {
+  const base = {
+    project: pair.project,
+    sourceBranch: pair.sourceBranch,
+    targetBranch: pair.targetBranch,
+  };
 
-  for (const pair of pairs) {
+  if (isUpToDate(pair)) {
+    return { ...base, status: 'skipped' };
+  }
+
+  const attributes: MergeRequestAttributes = {
+    assigneeIds: metadata.assigneeIds,
+    reviewerIds: metadata.reviewerIds,
+    labels: metadata.labels,
+  };
+
+  if (metadata.milestoneTitle) {
     try {
-      const { mrUrl } = await client.createMergeRequest(
+      attributes.milestoneId = await client.findMilestoneId(
         pair.project.externalId,
-        title,
-        pair.sourceBranch,
-        pair.targetBranch,
-        description,
+        metadata.milestoneTitle,
       );
-      results.push({
-        project: pair.project,
-        sourceBranch: pair.sourceBranch,
-        targetBranch: pair.targetBranch,
-        status: 'created',
-        mrUrl,
-      });
     } catch (error: unknown) {
-      if (error instanceof Error && error.message === 'MR_ALREADY_EXISTS') {
-        try {
-          const { mrUrl } = await client.updateMergeRequest(
-            pair.sourceBranch,
-            pair.targetBranch,
-            pair.project.fullPath,
-            title,
-            description,
-          );
-          results.push({
-            project: pair.project,
-            sourceBranch: pair.sourceBranch,
-            targetBranch: pair.targetBranch,
-            status: 'updated',
-            mrUrl,
-          });
-        } catch (updateError: unknown) {
-          results.push({
-            project: pair.project,
-            sourceBranch: pair.sourceBranch,
-            targetBranch: pair.targetBranch,
-            status: 'failed',
-            error:
-              updateError instanceof Error
-                ? updateError.message
-                : 'Failed to update existing MR',
-          });
-        }
-      } else {
-        results.push({
-          project: pair.project,
-          sourceBranch: pair.sourceBranch,
-          targetBranch: pair.targetBranch,
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
+      return {
+        ...base,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+    if (attributes.milestoneId === undefined) {
+      return {
+        ...base,
+        status: 'failed',
+        error: `Milestone "${metadata.milestoneTitle}" not found`,
+      };
     }
   }
 
-  return results;
+  try {
+    const { mrIid, mrUrl } = await client.createMergeRequest(
+      pair.project.externalId,
+      pair.project.fullPath,
+      title,
+      pair.sourceBranch,
+      pair.targetBranch,
+      description,
+      attributes,
+    );
+    return { ...base, status: 'created', mrIid, mrUrl };
+  } catch (error: unknown) {
+    if (!(error instanceof Error && error.message === 'MR_ALREADY_EXISTS')) {
+      return {
+        ...base,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  try {
+    const { mrIid, mrUrl, previousTitle } = await client.updateMergeRequest(
+      pair.sourceBranch,
+      pair.targetBranch,
+      pair.project.fullPath,
+      title,
+      description,
+      attributes,
+    );
+    return { ...base, status: 'updated', mrIid, mrUrl, previousTitle };
+  } catch (updateError: unknown) {
+    return {
+      ...base,
+      status: 'failed',
+      error:
+        updateError instanceof Error
+          ? updateError.message
+          : 'Failed to update existing MR',
+    };
+  }
 }
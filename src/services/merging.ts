@@ -0,0 +1,123 @@
+import type { GitlabClient, OpenMergeRequestData } from '../gitlab/client.js';
+import type { BranchPair, ProjectConfig } from '../types.js';
+import {
+  DEFAULT_CONCURRENCY,
+  mapWithConcurrency,
+  type ProgressCallback,
+} from './concurrency.js';
+
+export interface MergeCandidate {
+  pair: BranchPair;
+  // Undefined when the pair has no open MR
+  mr?: OpenMergeRequestData;
+  error?: string;
+}
+
+export interface MergeOutcome {
+  project: ProjectConfig;
+  status: 'merged' | 'skipped' | 'failed';
+  mrUrl?: string;
+  reason?: string;
+}
+
+export interface MergeOptions {
+  squash?: boolean;
+  concurrency?: number;
+  onProgress?: ProgressCallback;
+}
+
+// Why an open MR can't be merged right now; empty when it is ready
+export function getMergeBlockers(mr: OpenMergeRequestData): string[] {
+  const blockers: string[] = [];
+  if (mr.pipelineStatus && mr.pipelineStatus !== 'success') {
+    blockers.push(`pipeline ${mr.pipelineStatus}`);
+  }
+  if (mr.mergeStatus !== 'mergeable') {
+    blockers.push(
+      (mr.mergeStatus ?? 'merge status unknown').replace(/_/g, ' '),
+    );
+  }
+  return blockers;
+}
+
+export function isReadyToMerge(candidate: MergeCandidate): boolean {
+  return (
+    candidate.mr !== undefined && getMergeBlockers(candidate.mr).length === 0
+  );
+}
+
+export async function findMergeCandidates(
+  client: GitlabClient,
+  pairs: BranchPair[],
+  options: { concurrency?: number; onProgress?: ProgressCallback } = {},
+): Promise<MergeCandidate[]> {
+  return mapWithConcurrency(
+    pairs,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (pair): Promise<MergeCandidate> => {
+      try {
+        const [mr] = await client.getOpenMergeRequests(
+          pair.project.fullPath,
+          pair.sourceBranch,
+          pair.targetBranch,
+        );
+        return { pair, mr };
+      } catch (error: unknown) {
+        return {
+          pair,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+    options.onProgress,
+  );
+}
+
+// Merges the selected candidates; every other candidate is reported as
+// skipped with the reason it was left alone.
+export async function mergeCandidates(
+  client: GitlabClient,
+  candidates: MergeCandidate[],
+  selected: Set<MergeCandidate>,
+  options: MergeOptions = {},
+): Promise<MergeOutcome[]> {
+  return mapWithConcurrency(
+    candidates,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (candidate): Promise<MergeOutcome> => {
+      const { pair, mr } = candidate;
+      const base = { project: pair.project, mrUrl: mr?.webUrl };
+
+      if (candidate.error) {
+        return { ...base, status: 'failed', reason: candidate.error };
+      }
+      if (!mr) {
+        return { ...base, status: 'skipped', reason: 'no open MR' };
+      }
+      if (!selected.has(candidate)) {
+        const blockers = getMergeBlockers(mr);
+        return {
+          ...base,
+          status: 'skipped',
+          reason: blockers.length > 0 ? blockers.join(', ') : 'not selected',
+        };
+      }
+
+      try {
+        await client.mergeMergeRequest(
+          pair.project.externalId,
+          mr.iid,
+          options.squash,
+        );
+        return { ...base, status: 'merged' };
+      } catch (error: unknown) {
+        return {
+          ...base,
+          status: 'failed',
+          reason: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+    options.onProgress,
+  );
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { GitlabClient, MergeRequestState } from '../gitlab/client.js';
+import type { MergeRequestResult } from '../types.js';
+import { waitForMerges } from './promotion.js';
+
+function result(
+  status: MergeRequestResult['status'] = 'created',
+): MergeRequestResult {
+  return {
+    project: {
+      externalId: '1',
+      name: 'api',
+      fullPath: 'acme/api',
+      branchMap: {},
+    },
+    sourceBranch: 'develop',
+    targetBranch: 'main',
+    status,
+    ...(status === 'created' && { mrIid: '7' }),
+  };
+}
+
+function mergeRequest(
+  state: MergeRequestState['state'],
+  pipelineStatus?: string,
+): MergeRequestState {
+  return {
+    title: 'Release',
+    state,
+    targetBranch: 'main',
+    pipelineStatus,
+    webUrl: 'https://gitlab.com/acme/api/-/merge_requests/7',
+  };
+}
+
+// Answers each poll with the next item of `responses`, an Error rejecting
+function client(...responses: Array<MergeRequestState | Error>) {
+  const getMergeRequest = vi.fn();
+  for (const response of responses) {
+    if (response instanceof Error) {
+      getMergeRequest.mockRejectedValueOnce(response);
+    } else {
+      getMergeRequest.mockResolvedValueOnce(response);
+    }
+  }
+  return { getMergeRequest } as unknown as GitlabClient & {
+    getMergeRequest: typeof getMergeRequest;
+  };
+}
+
+describe('waitForMerges', () => {
+  it('waits until the MR is merged', async () => {
+    const gitlab = client(
+      mergeRequest('opened', 'running'),
+      mergeRequest('merged', 'success'),
+    );
+
+    const { entries, stopped } = await waitForMerges(gitlab, [result()], {
+      intervalMs: 0,
+    });
+
+    expect(stopped).toBe(false);
+    expect(entries[0]).toMatchObject({
+      state: 'merged',
+      pipelineStatus: 'success',
+    });
+    expect(gitlab.getMergeRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops waiting on a closed MR', async () => {
+    const { entries } = await waitForMerges(
+      client(mergeRequest('closed')),
+      [result()],
+      { intervalMs: 0 },
+    );
+
+    expect(entries[0].state).toBe('closed');
+  });
+
+  it('keeps waiting on a locked MR, which GitLab is merging', async () => {
+    const gitlab = client(mergeRequest('locked'), mergeRequest('merged'));
+
+    const { entries } = await waitForMerges(gitlab, [result()], {
+      intervalMs: 0,
+    });
+
+    expect(entries[0].state).toBe('merged');
+    expect(gitlab.getMergeRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps polling after a failed pipeline', async () => {
+    const states: string[] = [];
+    const gitlab = client(
+      mergeRequest('opened', 'failed'),
+      mergeRequest('merged', 'success'),
+    );
+
+    await waitForMerges(gitlab, [result()], {
+      intervalMs: 0,
+      onUpdate: (entries) => states.push(entries[0].state),
+    });
+
+    expect(states).toEqual(['pipeline-failed', 'merged']);
+  });
+
+  it('stops on a failed pipeline with stopOnFailedPipeline', async () => {
+    const { entries, stopped } = await waitForMerges(
+      client(mergeRequest('opened', 'failed')),
+      [result()],
+      { intervalMs: 0, stopOnFailedPipeline: true },
+    );
+
+    expect(stopped).toBe(true);
+    expect(entries[0].state).toBe('pipeline-failed');
+  });
+
+  it('does not poll skipped or failed results', async () => {
+    const gitlab = client();
+
+    const { entries } = await waitForMerges(
+      gitlab,
+      [result('skipped'), result('failed')],
+      { intervalMs: 0 },
+    );
+
+    expect(entries.map((e) => e.state)).toEqual(['up-to-date', 'failed']);
+    expect(gitlab.getMergeRequest).not.toHaveBeenCalled();
+  });
+
+  it('retries an MR that could not be read', async () => {
+    const { entries } = await waitForMerges(
+      client(new Error('502 Bad Gateway'), mergeRequest('merged')),
+      [result()],
+      { intervalMs: 0, maxConsecutiveErrors: 2 },
+    );
+
+    expect(entries[0].state).toBe('merged');
+  });
+
+  it('fails an MR that could not be read several times in a row', async () => {
+    const gitlab = client(
+      new Error('502 Bad Gateway'),
+      mergeRequest('opened'),
+      new Error('502 Bad Gateway'),
+      new Error('403 Forbidden'),
+    );
+
+    const { entries } = await waitForMerges(gitlab, [result()], {
+      intervalMs: 0,
+      maxConsecutiveErrors: 2,
+    });
+
+    expect(entries[0]).toMatchObject({
+      state: 'failed',
+      error: '403 Forbidden',
+    });
+    expect(gitlab.getMergeRequest).toHaveBeenCalledTimes(4);
+  });
+});
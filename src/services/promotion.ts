@@ -0,0 +1,120 @@
+import type { GitlabClient } from '../gitlab/client.js';
+import type { MergeRequestResult } from '../types.js';
+import { DEFAULT_CONCURRENCY, mapWithConcurrency } from './concurrency.js';
+
+export type MergeWaitState =
+  | 'waiting'
+  | 'pipeline-failed'
+  | 'merged'
+  | 'up-to-date'
+  | 'closed'
+  | 'failed';
+
+export interface MergeWaitEntry {
+  result: MergeRequestResult;
+  state: MergeWaitState;
+  pipelineStatus?: string;
+  // Last error reading the MR, set when the entry failed because of it
+  error?: string;
+}
+
+export interface WaitOptions {
+  intervalMs: number;
+  stopOnFailedPipeline?: boolean;
+  concurrency?: number;
+  // Polls in a row an MR may fail to be read before its entry fails
+  // (default: DEFAULT_MAX_CONSECUTIVE_ERRORS)
+  maxConsecutiveErrors?: number;
+  onUpdate?: (entries: MergeWaitEntry[]) => void;
+}
+
+export interface WaitOutcome {
+  entries: MergeWaitEntry[];
+  // True when polling was aborted because a pipeline failed
+  stopped: boolean;
+}
+
+export const DEFAULT_MAX_CONSECUTIVE_ERRORS = 5;
+
+function initialState(result: MergeRequestResult): MergeWaitState {
+  if (result.status === 'skipped') return 'up-to-date';
+  if (result.status === 'failed' || !result.mrIid) return 'failed';
+  return 'waiting';
+}
+
+function isPending(entry: MergeWaitEntry): boolean {
+  return entry.state === 'waiting' || entry.state === 'pipeline-failed';
+}
+
+// Whether the project may move on to the next environment
+export function canProceed(entry: MergeWaitEntry): boolean {
+  return entry.state === 'merged' || entry.state === 'up-to-date';
+}
+
+// Polls the MRs of one promotion step until each is merged or closed. A
+// project whose pipeline failed keeps being polled (the pipeline may be
+// retried) unless `stopOnFailedPipeline` is set, which aborts the wait. An
+// MR that can't be read `maxConsecutiveErrors` times in a row fails.
+export async function waitForMerges(
+  client: GitlabClient,
+  results: MergeRequestResult[],
+  options: WaitOptions,
+): Promise<WaitOutcome> {
+  const entries: MergeWaitEntry[] = results.map((result) => ({
+    result,
+    state: initialState(result),
+  }));
+  const maxErrors =
+    options.maxConsecutiveErrors ?? DEFAULT_MAX_CONSECUTIVE_ERRORS;
+  const errorCounts = new Map<MergeWaitEntry, number>();
+
+  while (entries.some(isPending)) {
+    await mapWithConcurrency(
+      entries.filter(isPending),
+      options.concurrency ?? DEFAULT_CONCURRENCY,
+      async (entry) => {
+        try {
+          const mr = await client.getMergeRequest(
+            entry.result.project.externalId,
+            entry.result.mrIid!,
+          );
+          errorCounts.delete(entry);
+          entry.pipelineStatus = mr.pipelineStatus;
+          if (mr.state === 'merged') {
+            entry.state = 'merged';
+          } else if (mr.state === 'closed') {
+            entry.state = 'closed';
+          } else {
+            // `locked` is transient: GitLab is in the middle of merging
+            entry.state =
+              mr.pipelineStatus === 'failed' ? 'pipeline-failed' : 'waiting';
+          }
+        } catch (error: unknown) {
+          // Keep the previous state; the next poll will try again
+          const count = (errorCounts.get(entry) ?? 0) + 1;
+          errorCounts.set(entry, count);
+          if (count >= maxErrors) {
+            entry.state = 'failed';
+            entry.error =
+              error instanceof Error ? error.message : String(error);
+          }
+        }
+      },
+    );
+
+    options.onUpdate?.(entries);
+
+    if (
+      options.stopOnFailedPipeline &&
+      entries.some((e) => e.state === 'pipeline-failed')
+    ) {
+      return { entries, stopped: true };
+    }
+
+    if (entries.some(isPending)) {
+      await new Promise((resolve) => setTimeout(resolve, options.intervalMs));
+    }
+  }
+
+  return { entries, stopped: false };
+}
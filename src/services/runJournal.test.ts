@@ -0,0 +1,76 @@
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { setProfileOverride } from '../config/manager.js';
+import type { RunRecord } from '../types.js';
+import { listRuns, loadRun, recordRun } from './runJournal.js';
+
+const home = vi.hoisted(() => {
+  const { mkdtempSync } = require('node:fs') as typeof import('node:fs');
+  const { tmpdir } = require('node:os') as typeof import('node:os');
+  const { join } = require('node:path') as typeof import('node:path');
+  const dir = mkdtempSync(join(tmpdir(), 'husgit-runs-'));
+  process.env.HOME = dir;
+  return dir;
+});
+
+const run: Omit<RunRecord, 'id' | 'startedAt'> = {
+  user: 'alice',
+  direction: 'release',
+  mode: 'merge',
+  sourceEnv: 'dev',
+  targetEnv: 'prod',
+  title: 'Sprint 42',
+  projectPaths: [],
+  results: [],
+};
+
+afterEach(() => {
+  setProfileOverride('default');
+  vi.restoreAllMocks();
+});
+
+afterAll(() => {
+  rmSync(home, { recursive: true, force: true });
+});
+
+describe('run journal', () => {
+  it('reads back a recorded run', () => {
+    const record = recordRun(run, new Date('2026-01-01T10:00:00Z'));
+
+    expect(record.id).toMatch(/^20260101-100000-[0-9a-f]{4}$/);
+    expect(loadRun(record.id)).toEqual(record);
+    expect(listRuns()[0]).toEqual(record);
+  });
+
+  it.each(['../../config', '20260101-100000-a1b2/../x', ''])(
+    'refuses run id %j',
+    (id) => {
+      expect(() => loadRun(id)).toThrow('Invalid run id');
+    },
+  );
+
+  it('skips an unreadable file with a warning', () => {
+    const warn = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const dir = join(home, '.husgit', 'runs');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, '29991231-235959-dead.json'), '{"id": ');
+
+    expect(loadRun('29991231-235959-dead')).toBeUndefined();
+    expect(listRuns().map((r) => r.id)).not.toContain('29991231-235959-dead');
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('29991231-235959-dead.json'),
+    );
+  });
+
+  it('keeps the runs of each profile apart', () => {
+    const record = recordRun(run);
+
+    setProfileOverride('work');
+    expect(loadRun(record.id)).toBeUndefined();
+    expect(listRuns()).toEqual([]);
+
+    const workRecord = recordRun(run);
+    expect(listRuns()).toEqual([workRecord]);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  readdirSync,
+  existsSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { homedir, userInfo } from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { DEFAULT_PROFILE, getActiveProfile } from '../config/manager.js';
+import type { GitlabClient } from '../gitlab/client.js';
+import type { RunRecord } from '../types.js';
+
+const HUSGIT_DIR = join(homedir(), '.husgit');
+
+// What createRunId generates; anything else never names a journal file
+const RUN_ID = /^\d{8}-\d{6}-[0-9a-f]{4}$/;
+
+// Runs are kept per profile so `undo` never replays a run against another
+// GitLab instance. The default profile keeps the directory it had before
+// profiles existed.
+function getRunsDir(): string {
+  const profile = getActiveProfile();
+  return profile === DEFAULT_PROFILE
+    ? join(HUSGIT_DIR, 'runs')
+    : join(HUSGIT_DIR, 'profiles', profile, 'runs');
+}
+
+// Sortable by time: 20261019-143002-a1b2
+function createRunId(now: Date): string {
+  const stamp = now
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\..*$/, '')
+    .replace('T', '-');
+  return `${stamp}-${randomBytes(2).toString('hex')}`;
+}
+
+function runPath(id: string): string {
+  return join(getRunsDir(), `${id}.json`);
+}
+
+// A corrupt or half-written file is skipped rather than breaking every
+// command that reads the journal
+function readRun(path: string): RunRecord | undefined {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as RunRecord;
+  } catch (error: unknown) {
+    console.error(
+      `Skipping unreadable run file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return undefined;
+  }
+}
+
+// The GitLab user behind the token, falling back to the local OS user
+export async function resolveRunUser(client: GitlabClient): Promise<string> {
+  try {
+    const name = await client.checkCurrentUser();
+    if (name) return name;
+  } catch {
+    // Fall through to the local user
+  }
+  return userInfo().username;
+}
+
+export function recordRun(
+  run: Omit<RunRecord, 'id' | 'startedAt'>,
+  startedAt: Date = new Date(),
+): RunRecord {
+  const record: RunRecord = {
+    id: createRunId(startedAt),
+    startedAt: startedAt.toISOString(),
+    ...run,
+  };
+  saveRun(record);
+  return record;
+}
+
+export function saveRun(record: RunRecord): void {
+  mkdirSync(getRunsDir(), { recursive: true });
+  writeFileSync(
+    runPath(record.id),
+    JSON.stringify(record, null, 2) + '\n',
+    'utf-8',
+  );
+}
+
+export function loadRun(id: string): RunRecord | undefined {
+  if (!RUN_ID.test(id)) {
+    throw new Error(
+      `Invalid run id "${id}": run ids look like 20261019-143002-a1b2 (see husgit history)`,
+    );
+  }
+  const path = runPath(id);
+  if (!existsSync(path)) return undefined;
+  return readRun(path);
+}
+
+// Most recent first
+export function listRuns(): RunRecord[] {
+  const dir = getRunsDir();
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => RUN_ID.test(f.replace(/\.json$/, '')) && f.endsWith('.json'))
+    .sort()
+    .reverse()
+    .map((f) => readRun(join(dir, f)))
+    .filter((r): r is RunRecord => r !== undefined);
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { GitlabClient, GitlabTag } from '../gitlab/client.js';
+import type { ProjectConfig } from '../types.js';
+import {
+  createTags,
+  planTags,
+  renderTagName,
+  type TagPlan,
+} from './tagging.js';
+
+const now = new Date(2026, 0, 15);
+
+const project: ProjectConfig = {
+  externalId: '1',
+  name: 'api',
+  fullPath: 'acme/api',
+  branchMap: { prod: 'main' },
+};
+
+function client(tags: GitlabTag[], head = 'head-sha') {
+  return {
+    listTags: vi.fn(async () => tags),
+    getBranchHead: vi.fn(async () => head),
+    getGitlabUrl: () => 'https://gitlab.com',
+    compareBranches: vi.fn(async () => ({ commits: [], diffs: [] })),
+    createTag: vi.fn(async () => {}),
+    createRelease: vi.fn(async () => 'https://gitlab.com/release'),
+  } as unknown as GitlabClient;
+}
+
+describe('renderTagName', () => {
+  it('bumps the highest semver tag', () => {
+    expect(
+      renderTagName('v{semver}', ['v1.2.0', 'v1.10.3', 'other'], {
+        env: 'prod',
+        now,
+        bump: 'minor',
+      }),
+    ).toEqual({ tagName: 'v1.11.0', previousTag: 'v1.10.3' });
+  });
+
+  it('starts at 1.0.0', () => {
+    expect(renderTagName('v{semver}', [], { env: 'prod', now })).toEqual({
+      tagName: 'v1.0.0',
+      previousTag: undefined,
+    });
+  });
+
+  it('counts {n} per {date}', () => {
+    expect(
+      renderTagName(
+        '{env}-{date}-{n}',
+        ['prod-20260114-3', 'prod-20260115-1', 'staging-20260115-4'],
+        { env: 'prod', now },
+      ),
+    ).toEqual({ tagName: 'prod-20260115-2', previousTag: 'prod-20260115-1' });
+  });
+});
+
+describe('planTags', () => {
+  it('plans the next tag when the head is not tagged yet', async () => {
+    const [plan] = await planTags(
+      client([{ name: 'v1.0.0', commitSha: 'old-sha', hasRelease: true }]),
+      [project],
+      { env: 'prod', template: 'v{semver}', now },
+    );
+
+    expect(plan).toMatchObject({
+      tagName: 'v1.0.1',
+      previousTag: 'v1.0.0',
+      exists: false,
+    });
+  });
+
+  it('reports the tag already on the head instead of adding one', async () => {
+    const [plan] = await planTags(
+      client([
+        { name: 'v1.0.0', commitSha: 'old-sha', hasRelease: true },
+        { name: 'v1.0.1', commitSha: 'head-sha', hasRelease: true },
+        { name: 'nightly', commitSha: 'head-sha', hasRelease: true },
+      ]),
+      [project],
+      { env: 'prod', template: 'v{semver}', now },
+    );
+
+    expect(plan).toMatchObject({
+      branch: 'main',
+      tagName: 'v1.0.1',
+      exists: true,
+      releaseMissing: false,
+    });
+  });
+
+  it('notices a tag on the head whose release is missing', async () => {
+    const [plan] = await planTags(
+      client([
+        { name: 'v1.0.0', commitSha: 'old-sha', hasRelease: true },
+        { name: 'v1.0.1', commitSha: 'head-sha', hasRelease: false },
+      ]),
+      [project],
+      { env: 'prod', template: 'v{semver}', now },
+    );
+
+    expect(plan).toMatchObject({
+      tagName: 'v1.0.1',
+      previousTag: 'v1.0.0',
+      exists: true,
+      releaseMissing: true,
+    });
+  });
+
+  it('reports a failure to read the tags or the head', async () => {
+    const gitlab = client([]);
+    vi.mocked(gitlab.getBranchHead).mockRejectedValue(new Error('404'));
+
+    const [plan] = await planTags(gitlab, [project], {
+      env: 'prod',
+      template: 'v{semver}',
+      now,
+    });
+
+    expect(plan).toMatchObject({ exists: false, error: '404' });
+  });
+});
+
+describe('createTags', () => {
+  const plan: TagPlan = {
+    project,
+    branch: 'main',
+    tagName: 'v1.0.1',
+    previousTag: 'v1.0.0',
+    headSha: 'planned-sha',
+    exists: false,
+  };
+
+  it('tags the commit that was planned, not the current branch head', async () => {
+    const gitlab = client([]);
+
+    const [result] = await createTags(gitlab, [plan]);
+
+    expect(result.status).toBe('created');
+    expect(gitlab.createTag).toHaveBeenCalledWith('1', 'v1.0.1', 'planned-sha');
+    expect(gitlab.compareBranches).toHaveBeenCalledWith(
+      '1',
+      'v1.0.0',
+      'planned-sha',
+    );
+  });
+
+  it('only creates the release of an existing tag without one', async () => {
+    const gitlab = client([]);
+
+    const [result] = await createTags(gitlab, [
+      { ...plan, exists: true, releaseMissing: true },
+    ]);
+
+    expect(result.status).toBe('released');
+    expect(gitlab.createTag).not.toHaveBeenCalled();
+    expect(gitlab.createRelease).toHaveBeenCalledWith(
+      '1',
+      'acme/api',
+      'v1.0.1',
+      expect.any(String),
+    );
+  });
+
+  it('leaves an existing tag with its release alone', async () => {
+    const gitlab = client([]);
+
+    const [result] = await createTags(gitlab, [{ ...plan, exists: true }]);
+
+    expect(result.status).toBe('exists');
+    expect(gitlab.createRelease).not.toHaveBeenCalled();
+  });
+});
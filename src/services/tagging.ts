@@ -0,0 +1,303 @@
+import type { GitlabClient, GitlabTag } from '../gitlab/client.js';
+import type { BranchComparison, ProjectConfig } from '../types.js';
+import {
+  DEFAULT_CONCURRENCY,
+  mapWithConcurrency,
+  type ProgressCallback,
+} from './concurrency.js';
+import { buildPromotionDescription } from './descriptions.js';
+
+export const DEFAULT_TAG_TEMPLATE = 'v{semver}';
+
+export type SemverBump = 'major' | 'minor' | 'patch';
+
+export interface TagPlan {
+  project: ProjectConfig;
+  branch: string;
+  tagName: string;
+  // Latest earlier tag of the same template, used for the release notes
+  previousTag?: string;
+  // Branch head when planned: the commit that gets tagged, even if the
+  // branch moves before the tags are created
+  headSha?: string;
+  exists: boolean;
+  // The existing tag on the head has no GitLab Release, e.g. because
+  // creating it failed on an earlier run
+  releaseMissing?: boolean;
+  // Set when the existing tags could not be listed
+  error?: string;
+}
+
+export interface TagResult {
+  project: ProjectConfig;
+  branch: string;
+  tagName?: string;
+  // `released`: only the release was missing and got created
+  status: 'created' | 'released' | 'exists' | 'failed';
+  releaseUrl?: string;
+  error?: string;
+}
+
+export interface TagOptions {
+  env: string;
+  template: string;
+  bump?: SemverBump;
+  now?: Date;
+  concurrency?: number;
+  onProgress?: ProgressCallback;
+}
+
+const PLACEHOLDERS = /\{(semver|date|n|env)\}/g;
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function bumpVersion(version: number[], bump: SemverBump): number[] {
+  const [major, minor, patch] = version;
+  if (bump === 'major') return [major + 1, 0, 0];
+  if (bump === 'minor') return [major, minor + 1, 0];
+  return [major, minor, patch + 1];
+}
+
+// Everything before the first placeholder; narrows the tag search
+export function getTagPrefix(template: string): string {
+  return template.split('{')[0];
+}
+
+// Tags of `template` among `tags`, ordered oldest to newest
+function matchTemplate(
+  template: string,
+  tags: string[],
+  env: string,
+): Array<{ tag: string; values: Record<string, number> }> {
+  const fields: string[] = [];
+  let pattern = '';
+  let last = 0;
+  for (const match of template.matchAll(PLACEHOLDERS)) {
+    pattern += escapeRegExp(template.slice(last, match.index));
+    const name = match[1];
+    if (name === 'semver') {
+      pattern += '(\\d+)\\.(\\d+)\\.(\\d+)';
+      fields.push('major', 'minor', 'patch');
+    } else if (name === 'date') {
+      pattern += '(\\d{8})';
+      fields.push('date');
+    } else if (name === 'n') {
+      pattern += '(\\d+)';
+      fields.push('n');
+    } else {
+      pattern += escapeRegExp(env);
+    }
+    last = match.index + match[0].length;
+  }
+  const regex = new RegExp(`^${pattern}${escapeRegExp(template.slice(last))}$`);
+
+  return tags
+    .map((tag) => {
+      const match = tag.match(regex);
+      if (!match) return undefined;
+      const values: Record<string, number> = {};
+      fields.forEach((f, i) => (values[f] = Number(match[i + 1])));
+      return { tag, values };
+    })
+    .filter((m) => m !== undefined)
+    .sort((a, b) => {
+      for (const f of ['major', 'minor', 'patch', 'date', 'n']) {
+        const diff = (a.values[f] ?? 0) - (b.values[f] ?? 0);
+        if (diff !== 0) return diff;
+      }
+      return 0;
+    });
+}
+
+// Renders the next tag name of `template` given the tags that already
+// exist. {semver} bumps the highest matching version (1.0.0 when there is
+// none); {n} counts up from 1 among tags of the same {date}. The previous
+// tag is the latest existing tag of the same template, whatever its date.
+export function renderTagName(
+  template: string,
+  existingTags: string[],
+  options: { env: string; now: Date; bump?: SemverBump },
+): { tagName: string; previousTag?: string } {
+  const today = formatDate(options.now);
+  const matched = matchTemplate(template, existingTags, options.env);
+
+  const latest = matched.at(-1);
+  const version =
+    latest?.values.major !== undefined
+      ? bumpVersion(
+          [latest.values.major, latest.values.minor, latest.values.patch],
+          options.bump ?? 'patch',
+        )
+      : [1, 0, 0];
+  const lastN = Math.max(
+    0,
+    ...matched
+      .filter(
+        (m) => m.values.date === undefined || String(m.values.date) === today,
+      )
+      .map((m) => m.values.n ?? 0),
+  );
+
+  const next: Record<string, string> = {
+    semver: version.join('.'),
+    date: today,
+    n: String(lastN + 1),
+    env: options.env,
+  };
+
+  return {
+    tagName: template.replace(PLACEHOLDERS, (_m, name: string) => next[name]),
+    previousTag: latest?.tag,
+  };
+}
+
+export async function planTags(
+  client: GitlabClient,
+  projects: ProjectConfig[],
+  options: TagOptions,
+): Promise<TagPlan[]> {
+  const now = options.now ?? new Date();
+  const prefix = getTagPrefix(options.template);
+
+  return mapWithConcurrency(
+    projects,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (project): Promise<TagPlan> => {
+      const branch = project.branchMap[options.env];
+      let existing: GitlabTag[];
+      let head: string;
+      try {
+        [existing, head] = await Promise.all([
+          client.listTags(
+            project.externalId,
+            prefix ? `^${prefix}` : undefined,
+          ),
+          client.getBranchHead(project.externalId, branch),
+        ]);
+      } catch (error: unknown) {
+        return {
+          project,
+          branch,
+          tagName: '',
+          exists: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      // Nothing to tag when the head already has a tag of this template,
+      // e.g. when tagging is run twice
+      const names = existing.map((t) => t.name);
+      const matched = matchTemplate(options.template, names, options.env);
+      const atHead = new Set(
+        existing.filter((t) => t.commitSha === head).map((t) => t.name),
+      );
+      let headIndex = -1;
+      matched.forEach((m, i) => {
+        if (atHead.has(m.tag)) headIndex = i;
+      });
+      if (headIndex !== -1) {
+        const tagName = matched[headIndex].tag;
+        return {
+          project,
+          branch,
+          tagName,
+          previousTag: matched[headIndex - 1]?.tag,
+          headSha: head,
+          exists: true,
+          releaseMissing: !existing.find((t) => t.name === tagName)!.hasRelease,
+        };
+      }
+
+      const { tagName, previousTag } = renderTagName(options.template, names, {
+        env: options.env,
+        now,
+        bump: options.bump,
+      });
+      return {
+        project,
+        branch,
+        tagName,
+        previousTag,
+        headSha: head,
+        exists: names.includes(tagName),
+      };
+    },
+    options.onProgress,
+  );
+}
+
+// Tags the planned head of each branch and creates a GitLab Release whose
+// notes list what changed since the previous tag. Existing tags are
+// reported, never overwritten; only their missing release is created.
+export async function createTags(
+  client: GitlabClient,
+  plans: TagPlan[],
+  options: { concurrency?: number; onProgress?: ProgressCallback } = {},
+): Promise<TagResult[]> {
+  const gitlabUrl = client.getGitlabUrl();
+
+  return mapWithConcurrency(
+    plans,
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (plan): Promise<TagResult> => {
+      const { project, branch, tagName } = plan;
+      const base = { project, branch, tagName };
+      if (plan.error) {
+        return { project, branch, status: 'failed', error: plan.error };
+      }
+      if (plan.exists && !plan.releaseMissing) {
+        return { ...base, status: 'exists' };
+      }
+      const ref = plan.headSha ?? branch;
+
+      try {
+        let notes = 'Initial release.';
+        if (plan.previousTag) {
+          const comparison: BranchComparison = await client.compareBranches(
+            project.externalId,
+            plan.previousTag,
+            ref,
+          );
+          notes =
+            buildPromotionDescription(comparison, gitlabUrl) ||
+            `No changes since ${plan.previousTag}.`;
+        }
+
+        if (!plan.exists) {
+          await client.createTag(project.externalId, tagName, ref);
+        }
+        const releaseUrl = await client.createRelease(
+          project.externalId,
+          project.fullPath,
+          tagName,
+          notes,
+        );
+        return {
+          ...base,
+          status: plan.exists ? 'released' : 'created',
+          releaseUrl,
+        };
+      } catch (error: unknown) {
+        if (
+          error instanceof Error &&
+          (error.message === 'TAG_ALREADY_EXISTS' ||
+            error.message === 'RELEASE_ALREADY_EXISTS')
+        ) {
+          return { ...base, status: 'exists' };
+        }
+        return {
+          ...base,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+    options.onProgress,
+  );
+}
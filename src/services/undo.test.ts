@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { MergeRequestResult, RunRecord } from '../types.js';
+import { getUndoableResults } from './undo.js';
+
+function result(
+  fullPath: string,
+  status: MergeRequestResult['status'],
+): MergeRequestResult {
+  return {
+    project: { fullPath },
+    status,
+    mrIid: '1',
+  } as unknown as MergeRequestResult;
+}
+
+const run = {
+  results: [
+    result('acme/api', 'created'),
+    result('acme/worker', 'updated'),
+    result('acme/web', 'failed'),
+  ],
+} as unknown as RunRecord;
+
+describe('getUndoableResults', () => {
+  it('keeps the MRs the run created or updated', () => {
+    expect(getUndoableResults(run).map((r) => r.project.fullPath)).toEqual([
+      'acme/api',
+      'acme/worker',
+    ]);
+  });
+
+  it('keeps only the failed ones after a partial undo', () => {
+    expect(
+      getUndoableResults({ ...run, undoFailures: ['acme/worker'] }).map(
+        (r) => r.project.fullPath,
+      ),
+    ).toEqual(['acme/worker']);
+  });
+});
@@ -0,0 +1,81 @@
+import type { GitlabClient } from '../gitlab/client.js';
+import type { MergeRequestResult, RunRecord } from '../types.js';
+import { DEFAULT_CONCURRENCY, mapWithConcurrency } from './concurrency.js';
+
+export type UndoAction =
+  | 'closed'
+  | 'title-restored'
+  | 'untouched'
+  | 'already-closed'
+  | 'already-merged'
+  | 'failed';
+
+export interface UndoOutcome {
+  result: MergeRequestResult;
+  action: UndoAction;
+  error?: string;
+}
+
+export interface UndoOptions {
+  // Close MRs the run only updated instead of restoring their title
+  includeUpdated?: boolean;
+  concurrency?: number;
+}
+
+// Only MRs the run created or updated can be undone. After a partial undo,
+// only the ones that failed are left.
+export function getUndoableResults(run: RunRecord): MergeRequestResult[] {
+  return run.results.filter(
+    (r) =>
+      (r.status === 'created' || r.status === 'updated') &&
+      r.mrIid &&
+      (!run.undoFailures || run.undoFailures.includes(r.project.fullPath)),
+  );
+}
+
+// Closes the MRs a run created and restores the previous title of the ones
+// it updated. Merged MRs are left alone.
+export async function undoRun(
+  client: GitlabClient,
+  run: RunRecord,
+  options: UndoOptions = {},
+): Promise<UndoOutcome[]> {
+  return mapWithConcurrency(
+    getUndoableResults(run),
+    options.concurrency ?? DEFAULT_CONCURRENCY,
+    async (result): Promise<UndoOutcome> => {
+      const externalId = result.project.externalId;
+      const iid = result.mrIid!;
+      try {
+        const mr = await client.getMergeRequest(externalId, iid);
+        if (mr.state === 'merged') {
+          return { result, action: 'already-merged' };
+        }
+        if (mr.state === 'closed' || mr.state === 'locked') {
+          return { result, action: 'already-closed' };
+        }
+
+        if (result.status === 'created' || options.includeUpdated) {
+          await client.closeMergeRequest(externalId, iid);
+          return { result, action: 'closed' };
+        }
+
+        if (result.previousTitle && result.previousTitle !== mr.title) {
+          await client.setMergeRequestTitle(
+            externalId,
+            iid,
+            result.previousTitle,
+          );
+          return { result, action: 'title-restored' };
+        }
+        return { result, action: 'untouched' };
+      } catch (error: unknown) {
+        return {
+          result,
+          action: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+  );
+}
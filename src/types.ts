@@ -2,6 +2,7 @@ export interface Environment {
   name: string;
   order: number;
   defaultBranch?: string;
+  autoMerge?: boolean;
 }
 
 export interface ProjectConfig {
@@ -16,10 +17,17 @@ export interface Group {
 }
 
 export interface HusgitConfig {
+  // Schema version, stamped on every save (see config/migrations.ts)
+  version?: number;
   gitlabUrl: string;
   environments: Environment[];
   groups: Record<string, Group>;
   projects: Record<string, ProjectConfig>;
+  concurrency?: number;
+  // Environment variable holding this profile's token (default: GITLAB_TOKEN)
+  tokenEnv?: string;
+  // Tag name template for `husgit tag`, e.g. "v{semver}" or "{date}-{n}"
+  tagTemplate?: string;
 }
 
 export interface GitlabProject {
@@ -32,19 +40,60 @@ export interface MergeRequestResult {
   project: ProjectConfig;
   sourceBranch: string;
   targetBranch: string;
-  status: 'created' | 'updated' | 'failed';
+  status: 'created' | 'updated' | 'skipped' | 'conflict' | 'failed';
+  mrIid?: string;
   mrUrl?: string;
   error?: string;
+  autoMerge?: 'enabled' | 'failed';
+  autoMergeError?: string;
+  // Title of an updated MR before this run changed it
+  previousTitle?: string;
+}
+
+export interface CommitSummary {
+  id: string;
+  shortId: string;
+  title: string;
+  message: string;
+  authorName: string;
+  webUrl: string;
+  parentIds: string[];
+}
+
+export interface BranchComparison {
+  commits: CommitSummary[];
+  // Unknown for cherry-picked branches, which are not compared
+  filesChanged?: number;
 }
 
 export interface BranchPair {
   project: ProjectConfig;
   sourceBranch: string;
   targetBranch: string;
+  comparison?: BranchComparison;
 }
 
 export type Direction = 'release' | 'backport';
 
+export interface RunRecord {
+  id: string;
+  user: string;
+  startedAt: string;
+  direction: Direction;
+  mode: 'merge' | 'cherry-pick';
+  sourceEnv: string;
+  targetEnv: string;
+  title: string;
+  projectPaths: string[];
+  results: MergeRequestResult[];
+  // Set when failed projects were re-executed with --retry-failed
+  retriedAt?: string;
+  // Set once every MR of the run was closed or restored by undo
+  undoneAt?: string;
+  // Projects whose MR the last undo could not close or restore
+  undoFailures?: string[];
+}
+
 export interface OpenMergeRequest {
   project: ProjectConfig;
   groups: string[];
@@ -56,4 +105,7 @@ export interface OpenMergeRequest {
   mrId?: string;
   mrUrl?: string;
   state?: string;
+  pipelineStatus?: string;
+  mergeStatus?: string;
+  approvals?: number;
 }
@@ -0,0 +1,84 @@
+import chalk from 'chalk';
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Common prefix and suffix first: keeps the LCS table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const lcs = Array.from({ length: midA.length + 1 }, () =>
+    new Array<number>(midB.length + 1).fill(0),
+  );
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        midA[i] === midB[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a
+    .slice(0, start)
+    .map((line) => ({ type: ' ', line }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      result.push({ type: ' ', line: midA[i] });
+      i++;
+      j++;
+    } else if (
+      j >= midB.length ||
+      (i < midA.length && lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      result.push({ type: '-', line: midA[i++] });
+    } else {
+      result.push({ type: '+', line: midB[j++] });
+    }
+  }
+  for (const line of a.slice(endA)) result.push({ type: ' ', line });
+  return result;
+}
+
+// Line diff of two texts, showing `context` unchanged lines around changes
+export function formatLineDiff(
+  before: string,
+  after: string,
+  context: number = 3,
+): string {
+  const lines = diffLines(before.split('\n'), after.split('\n'));
+  const changed = lines.map((l) => l.type !== ' ');
+
+  const output: string[] = [];
+  let skipping = false;
+  lines.forEach(({ type, line }, k) => {
+    const nearChange = changed
+      .slice(Math.max(0, k - context), k + context + 1)
+      .some(Boolean);
+    if (!nearChange) {
+      if (!skipping) output.push(chalk.dim('  ...'));
+      skipping = true;
+      return;
+    }
+    skipping = false;
+    if (type === '+') output.push(chalk.green(`+ ${line}`));
+    else if (type === '-') output.push(chalk.red(`- ${line}`));
+    else output.push(chalk.dim(`  ${line}`));
+  });
+  return output.join('\n');
+}
@@ -0,0 +1,31 @@
+import { InvalidArgumentError } from 'commander';
+
+// Parses `--flag=true|false` style values; a bare `--flag` yields `true`.
+export function parseBooleanOption(value: string | boolean): boolean {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  throw new InvalidArgumentError('Must be "true" or "false".');
+}
+
+// Collects comma-separated and/or repeated values: `--label a,b --label c`.
+export function parseListOption(
+  value: string,
+  previous: string[] = [],
+): string[] {
+  return [
+    ...previous,
+    ...value
+      .split(',')
+      .map((v) => v.trim())
+      .filter(Boolean),
+  ];
+}
+
+export function parsePositiveIntOption(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
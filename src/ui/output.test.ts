@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { log, setOutputFormat } from './output.js';
+
+afterEach(() => {
+  setOutputFormat('table');
+  vi.restoreAllMocks();
+});
+
+describe('log', () => {
+  it('writes to stdout with the table format', () => {
+    const stdout = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    log('3 created');
+
+    expect(stdout).toHaveBeenCalledWith('3 created');
+    expect(stderr).not.toHaveBeenCalled();
+  });
+
+  it('keeps stdout for the data with other formats', () => {
+    const stdout = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    setOutputFormat('json');
+    log('3 created');
+
+    expect(stderr).toHaveBeenCalledWith('3 created');
+    expect(stdout).not.toHaveBeenCalled();
+    // console.log itself is left alone
+    expect(console.log).toBe(stdout);
+  });
+});
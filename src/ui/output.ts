@@ -0,0 +1,223 @@
+import { InvalidArgumentError } from 'commander';
+import chalk from 'chalk';
+import ora, { type Ora } from 'ora';
+import type {
+  MergeRequestResult,
+  OpenMergeRequest,
+  ProjectConfig,
+} from '../types.js';
+
+export const OUTPUT_FORMATS = [
+  'table',
+  'json',
+  'yaml',
+  'csv',
+  'markdown',
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// Flat-ish records written by the machine-readable formats. Nested objects
+// and arrays are kept as such in JSON/YAML and flattened for CSV/Markdown.
+export type OutputRecord = Record<string, unknown>;
+
+let outputFormat: OutputFormat = 'table';
+
+export function parseOutputFormat(value: string): OutputFormat {
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(value)) {
+    throw new InvalidArgumentError(
+      `Must be one of: ${OUTPUT_FORMATS.join(', ')}.`,
+    );
+  }
+  return value as OutputFormat;
+}
+
+// Any other format than `table` keeps stdout for the data alone: colours are
+// turned off and human-readable messages go to stderr (see `log`).
+export function setOutputFormat(format: OutputFormat): void {
+  outputFormat = format;
+  if (format !== 'table') {
+    chalk.level = 0;
+  }
+}
+
+export function isTableOutput(): boolean {
+  return outputFormat === 'table';
+}
+
+// Human-readable messages of the commands that support --output
+export function log(...args: unknown[]): void {
+  if (isTableOutput()) console.log(...args);
+  else console.error(...args);
+}
+
+export function startSpinner(text: string): Ora {
+  return ora({ text, isSilent: !isTableOutput() }).start();
+}
+
+export function writeRecords(records: OutputRecord[]): void {
+  let text: string;
+  switch (outputFormat) {
+    case 'table':
+      return;
+    case 'json':
+      text = JSON.stringify(records, null, 2);
+      break;
+    case 'yaml':
+      text = records.length === 0 ? '[]' : toYaml(records, 0);
+      break;
+    case 'csv':
+      text = toCsv(records.map((r) => flattenRecord(r)));
+      break;
+    case 'markdown':
+      text = toMarkdown(records.map((r) => flattenRecord(r)));
+      break;
+  }
+  process.stdout.write(text + '\n');
+}
+
+export function toOpenMergeRequestRecord(mr: OpenMergeRequest): OutputRecord {
+  return {
+    project: mr.project.fullPath,
+    projectName: mr.project.name,
+    groups: mr.groups,
+    direction: mr.direction,
+    sourceEnv: mr.sourceEnv,
+    targetEnv: mr.targetEnv,
+    sourceBranch: mr.sourceBranch,
+    targetBranch: mr.targetBranch,
+    mrIid: mr.mrId ?? null,
+    mrUrl: mr.mrUrl ?? null,
+    state: mr.state ?? null,
+    pipelineStatus: mr.pipelineStatus ?? null,
+    mergeStatus: mr.mergeStatus ?? null,
+    approvals: mr.approvals ?? 0,
+  };
+}
+
+export function toMergeRequestResultRecord(
+  result: MergeRequestResult,
+): OutputRecord {
+  return {
+    project: result.project.fullPath,
+    projectName: result.project.name,
+    sourceBranch: result.sourceBranch,
+    targetBranch: result.targetBranch,
+    status: result.status,
+    mrIid: result.mrIid ?? null,
+    mrUrl: result.mrUrl ?? null,
+    error: result.error ?? null,
+    autoMerge: result.autoMerge ?? null,
+    autoMergeError: result.autoMergeError ?? null,
+  };
+}
+
+export function toProjectRecord(
+  project: ProjectConfig,
+  groups: string[],
+): OutputRecord {
+  return {
+    name: project.name,
+    fullPath: project.fullPath,
+    externalId: project.externalId,
+    groups,
+    branchMap: project.branchMap,
+  };
+}
+
+// { branchMap: { dev: 'develop' }, groups: ['a', 'b'] }
+//   → { 'branchMap.dev': 'develop', groups: 'a;b' }
+function flattenRecord(
+  record: OutputRecord,
+  prefix = '',
+): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const name = prefix + key;
+    if (Array.isArray(value)) {
+      flat[name] = value.map(String).join(';');
+    } else if (value !== null && typeof value === 'object') {
+      Object.assign(flat, flattenRecord(value as OutputRecord, `${name}.`));
+    } else {
+      flat[name] = value === null || value === undefined ? '' : String(value);
+    }
+  }
+  return flat;
+}
+
+function collectColumns(rows: Record<string, string>[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return Array.from(columns);
+}
+
+function toCsv(rows: Record<string, string>[]): string {
+  const columns = collectColumns(rows);
+  const escape = (value: string) =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [
+    columns.map(escape).join(','),
+    ...rows.map((row) => columns.map((c) => escape(row[c] ?? '')).join(',')),
+  ].join('\n');
+}
+
+function toMarkdown(rows: Record<string, string>[]): string {
+  const columns = collectColumns(rows);
+  if (columns.length === 0) return '';
+  const escape = (value: string) =>
+    value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  return [
+    `| ${columns.map(escape).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(
+      (row) => `| ${columns.map((c) => escape(row[c] ?? '')).join(' | ')} |`,
+    ),
+  ].join('\n');
+}
+
+// Minimal YAML for JSON-compatible data; strings are always double-quoted,
+// which YAML reads with JSON escaping rules.
+function toYaml(value: unknown, indent: number): string {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return value
+      .map((item) => {
+        const rendered = toYaml(item, indent + 2);
+        return isBlock(item)
+          ? `${pad}- ${rendered.trimStart()}`
+          : `${pad}- ${rendered}`;
+      })
+      .join('\n');
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    return entries
+      .map(([key, item]) =>
+        isBlock(item)
+          ? `${pad}${yamlKey(key)}:\n${toYaml(item, indent + 2)}`
+          : `${pad}${yamlKey(key)}: ${toYaml(item, indent + 2)}`,
+      )
+      .join('\n');
+  }
+
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (value === undefined || value === null) return 'null';
+  return String(value);
+}
+
+function yamlKey(key: string): string {
+  return /^[A-Za-z0-9_.-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function isBlock(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return (
+    value !== null && typeof value === 'object' && Object.keys(value).length > 0
+  );
+}
@@ -4,6 +4,7 @@ import {
   confirm,
   search,
   checkbox,
+  password,
   Separator,
 } from '@inquirer/prompts';
 import {
@@ -27,6 +28,19 @@ export async function promptInput(
   return input({ message, default: defaultValue });
 }
 
+export async function promptPassword(message: string): Promise<string> {
+  return password({ message, mask: '*' });
+}
+
+// For piped input; prompts can't be used afterwards
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
 export async function promptSelect<T extends string>(
   message: string,
   choices: { name: string; value: T; description?: string }[],
@@ -41,6 +55,13 @@ export async function promptConfirm(
   return confirm({ message, default: defaultValue });
 }
 
+export async function promptCheckbox<T>(
+  message: string,
+  choices: { name: string; value: T; checked?: boolean }[],
+): Promise<T[]> {
+  return checkbox({ message, choices });
+}
+
 export async function promptSearch<T>(
   message: string,
   source: (term: string) => Promise<{ name: string; value: T }[]>,
@@ -0,0 +1,242 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import { isUpToDate } from '../services/flowExecution.js';
+import type { CherryPickPlan } from '../services/cherryPick.js';
+import type { MergeOutcome } from '../services/merging.js';
+import type { TagResult } from '../services/tagging.js';
+import {
+  isTableOutput,
+  log,
+  toMergeRequestResultRecord,
+  writeRecords,
+} from './output.js';
+import type { UndoOutcome } from '../services/undo.js';
+import type { BranchPair, MergeRequestResult } from '../types.js';
+
+export function printPairsPreview(pairs: BranchPair[]): void {
+  const previewTable = new Table({
+    head: ['Project', 'Source Branch', 'Target Branch', 'Changes'],
+    style: { head: ['cyan'] },
+  });
+
+  for (const pair of pairs) {
+    let changes: string;
+    if (!pair.comparison) {
+      changes = chalk.dim('unknown');
+    } else if (isUpToDate(pair)) {
+      changes = chalk.dim('skipped (up to date)');
+    } else {
+      const count = pair.comparison.commits.length;
+      changes = `${count} commit${count !== 1 ? 's' : ''}`;
+    }
+
+    previewTable.push([
+      pair.project.name,
+      pair.sourceBranch,
+      pair.targetBranch,
+      changes,
+    ]);
+  }
+
+  log(previewTable.toString());
+}
+
+export function printCherryPickPreview(plans: CherryPickPlan[]): void {
+  const previewTable = new Table({
+    head: ['Project', 'Cherry-picks', 'Target Branch'],
+    style: { head: ['cyan'] },
+  });
+
+  for (const plan of plans) {
+    previewTable.push([
+      plan.project.name,
+      plan.picks.map((p) => p.label).join('\n'),
+      plan.targetBranch,
+    ]);
+  }
+
+  log(previewTable.toString());
+}
+
+export function printResults(results: MergeRequestResult[]): void {
+  // Machine-readable formats are written once by the command, see
+  // writeResultRecords
+  if (!isTableOutput()) return;
+
+  const showAutoMerge = results.some((r) => r.autoMerge);
+  const table = new Table({
+    head: [
+      'Project',
+      'Status',
+      ...(showAutoMerge ? ['Auto-merge'] : []),
+      'URL',
+    ],
+    style: { head: ['cyan'] },
+  });
+
+  for (const r of results) {
+    const statusText =
+      r.status === 'created'
+        ? chalk.green('Created')
+        : r.status === 'updated'
+          ? chalk.yellow('Updated')
+          : r.status === 'skipped'
+            ? chalk.dim(`Skipped (${r.error ?? 'up to date'})`)
+            : r.status === 'conflict'
+              ? chalk.magenta(`Conflict: ${r.error}`)
+              : chalk.red(`Failed: ${r.error}`);
+
+    const autoMergeText =
+      r.autoMerge === 'enabled'
+        ? chalk.green('Enabled')
+        : r.autoMerge === 'failed'
+          ? chalk.red(`Failed: ${r.autoMergeError}`)
+          : '-';
+
+    table.push([
+      r.project.name,
+      statusText,
+      ...(showAutoMerge ? [autoMergeText] : []),
+      r.mrUrl || '-',
+    ]);
+  }
+
+  log(table.toString());
+
+  const created = results.filter((r) => r.status === 'created').length;
+  const updated = results.filter((r) => r.status === 'updated').length;
+  const skipped = results.filter((r) => r.status === 'skipped').length;
+  const conflicts = results.filter((r) => r.status === 'conflict').length;
+  const failed = results.filter((r) => r.status === 'failed').length;
+
+  const conflictText =
+    conflicts > 0 ? `, ${chalk.magenta(`${conflicts} conflicted`)}` : '';
+  log(
+    `\n${chalk.green(`${created} created`)}, ${chalk.yellow(`${updated} updated`)}, ${chalk.dim(`${skipped} skipped`)}${conflictText}, ${chalk.red(`${failed} failed`)}`,
+  );
+}
+
+export function writeResultRecords(results: MergeRequestResult[]): void {
+  writeRecords(results.map(toMergeRequestResultRecord));
+}
+
+export function printUndoResults(outcomes: UndoOutcome[]): void {
+  const table = new Table({
+    head: ['Project', 'MR', 'Action'],
+    style: { head: ['cyan'] },
+  });
+
+  for (const o of outcomes) {
+    const actionText =
+      o.action === 'closed'
+        ? chalk.green('Closed')
+        : o.action === 'title-restored'
+          ? chalk.green(`Title restored: ${o.result.previousTitle}`)
+          : o.action === 'untouched'
+            ? chalk.dim('Left untouched')
+            : o.action === 'already-closed'
+              ? chalk.dim('Already closed')
+              : o.action === 'already-merged'
+                ? chalk.yellow('Already merged, left as is')
+                : chalk.red(`Failed: ${o.error}`);
+
+    table.push([o.result.project.name, o.result.mrUrl || '-', actionText]);
+  }
+
+  log(table.toString());
+
+  const closed = outcomes.filter((o) => o.action === 'closed').length;
+  const restored = outcomes.filter((o) => o.action === 'title-restored').length;
+  const failed = outcomes.filter((o) => o.action === 'failed').length;
+  log(
+    `\n${chalk.green(`${closed} closed`)}, ${chalk.green(`${restored} title${restored !== 1 ? 's' : ''} restored`)}, ${chalk.red(`${failed} failed`)}`,
+  );
+}
+
+export function printMergeResults(outcomes: MergeOutcome[]): void {
+  const table = new Table({
+    head: ['Project', 'Status', 'URL'],
+    style: { head: ['cyan'] },
+  });
+
+  for (const o of outcomes) {
+    const statusText =
+      o.status === 'merged'
+        ? chalk.green('Merged')
+        : o.status === 'skipped'
+          ? chalk.dim(`Skipped (${o.reason})`)
+          : chalk.red(`Failed: ${o.reason}`);
+
+    table.push([o.project.name, statusText, o.mrUrl || '-']);
+  }
+
+  log(table.toString());
+
+  const merged = outcomes.filter((o) => o.status === 'merged').length;
+  const skipped = outcomes.filter((o) => o.status === 'skipped').length;
+  const failed = outcomes.filter((o) => o.status === 'failed').length;
+  log(
+    `\n${chalk.green(`${merged} merged`)}, ${chalk.dim(`${skipped} skipped`)}, ${chalk.red(`${failed} failed`)}`,
+  );
+}
+
+export function printTagResults(results: TagResult[]): void {
+  const table = new Table({
+    head: ['Project', 'Tag', 'Status', 'Release'],
+    style: { head: ['cyan'] },
+  });
+
+  for (const r of results) {
+    const statusText =
+      r.status === 'created'
+        ? chalk.green('Created')
+        : r.status === 'released'
+          ? chalk.green('Release added to the existing tag')
+          : r.status === 'exists'
+            ? chalk.yellow('Already exists, left as is')
+            : chalk.red(`Failed: ${r.error}`);
+
+    table.push([
+      r.project.name,
+      r.tagName ?? '-',
+      statusText,
+      r.releaseUrl || '-',
+    ]);
+  }
+
+  log(table.toString());
+
+  const created = results.filter((r) => r.status === 'created').length;
+  const released = results.filter((r) => r.status === 'released').length;
+  const existing = results.filter((r) => r.status === 'exists').length;
+  const failed = results.filter((r) => r.status === 'failed').length;
+
+  const releasedText =
+    released > 0 ? `, ${chalk.green(`${released} releases added`)}` : '';
+  log(
+    `\n${chalk.green(`${created} created`)}${releasedText}, ${chalk.yellow(`${existing} already existing`)}, ${chalk.red(`${failed} failed`)}`,
+  );
+}
+
+export function formatPipelineStatus(status: string | undefined): string {
+  if (!status) return chalk.dim('none');
+  if (status === 'success') return chalk.green(status);
+  if (status === 'failed' || status === 'canceled') return chalk.red(status);
+  if (status === 'running' || status === 'pending') return chalk.cyan(status);
+  return status;
+}
+
+export function formatMergeStatus(status: string | undefined): string {
+  switch (status) {
+    case undefined:
+      return chalk.dim('unknown');
+    case 'mergeable':
+      return chalk.green('can be merged');
+    case 'conflict':
+      return chalk.red('has conflicts');
+    case 'need_rebase':
+      return chalk.yellow('needs rebase');
+    default:
+      return chalk.yellow(status.replace(/_/g, ' '));
+  }
+}